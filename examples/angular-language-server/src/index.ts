@@ -38,6 +38,8 @@ function createNgTemplateLsPlugin(docs: SourceFileDocuments): LanguageServicePlu
 
 	return {
 
+		id: 'ng-template',
+
 		validation: {
 
 			onSyntactic(document) {
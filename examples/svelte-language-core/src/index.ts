@@ -1,8 +1,6 @@
-import { decode } from '@jridgewell/sourcemap-codec';
-import { VirtualFile, EmbeddedFileKind, LanguageModule } from '@volar/language-core';
+import { VirtualFile, EmbeddedFileKind, LanguageModule, PositionCapabilities } from '@volar/language-core';
+import { fromSourceMapV3 } from '@volar/source-map';
 import { svelte2tsx } from 'svelte2tsx';
-import { TextDocument } from 'vscode-languageserver-textdocument';
-import { URI } from 'vscode-uri';
 
 export * from '@volar/language-core';
 
@@ -27,7 +25,10 @@ export const languageModule: LanguageModule = {
 			};
 		}
 	},
-	updateSourceFile(sourceFile, snapshot) {
+	updateSourceFile(sourceFile, snapshot, _oldSnapshot, changeRange) {
+		if (changeRange && changeRange.span.length === 0 && changeRange.newLength === 0) {
+			return []; // nothing changed, skip svelte2tsx
+		}
 		sourceFile.text = snapshot.getText(0, snapshot.getLength());
 		sourceFile.embeddeds = getEmbeddeds(sourceFile.fileName, sourceFile.text);
 	},
@@ -41,68 +42,15 @@ function getEmbeddeds(fileName: string, text: string) {
 			isTsFile: true,
 			mode: 'ts',
 		});
-		const v3Mappings = decode(tsx.map.mappings);
-		const sourcedDoc = TextDocument.create(URI.file(fileName).toString(), 'svelte', 0, text);
-		const genDoc = TextDocument.create(URI.file(fileName + '.tsx').toString(), 'typescriptreact', 0, tsx.code);
-		const mappings: VirtualFile['mappings'] = [];
-
-		let current: {
-			genOffset: number,
-			sourceOffset: number,
-		} | undefined;
-
-		for (let genLine = 0; genLine < v3Mappings.length; genLine++) {
-			for (const segment of v3Mappings[genLine]) {
-				const genCharacter = segment[0];
-				const genOffset = genDoc.offsetAt({ line: genLine, character: genCharacter });
-				if (current) {
-					let length = genOffset - current.genOffset;
-					const sourceText = text.substring(current.sourceOffset, current.sourceOffset + length);
-					const genText = tsx.code.substring(current.genOffset, current.genOffset + length);
-					if (sourceText !== genText) {
-						length = 0;
-						for (let i = 0; i < genOffset - current.genOffset; i++) {
-							if (sourceText[i] === genText[i]) {
-								length = i + 1;
-							}
-							else {
-								break;
-							}
-						}
-					}
-					if (length > 0) {
-						const lastMapping = mappings.length ? mappings[mappings.length - 1] : undefined;
-						if (lastMapping && lastMapping.generatedRange[1] === current.genOffset && lastMapping.sourceRange[1] === current.sourceOffset) {
-							lastMapping.generatedRange[1] = current.genOffset + length;
-							lastMapping.sourceRange[1] = current.sourceOffset + length;
-						}
-						else {
-							mappings.push({
-								sourceRange: [current.sourceOffset, current.sourceOffset + length],
-								generatedRange: [current.genOffset, current.genOffset + length],
-								data: {
-									hover: true,
-									references: true,
-									definition: true,
-									rename: true,
-									completion: true,
-									diagnostic: true,
-									semanticTokens: true,
-								},
-							});
-						}
-					}
-					current = undefined;
-				}
-				if (segment[2] !== undefined && segment[3] !== undefined) {
-					const sourceOffset = sourcedDoc.offsetAt({ line: segment[2], character: segment[3] });
-					current = {
-						genOffset,
-						sourceOffset,
-					};
-				}
-			}
-		}
+		const mappings = fromSourceMapV3<PositionCapabilities>(tsx.map, tsx.code, {
+			hover: true,
+			references: true,
+			definition: true,
+			rename: true,
+			completion: true,
+			diagnostic: true,
+			semanticTokens: true,
+		}, () => text);
 
 		const embeddeds: VirtualFile[] = [];
 
@@ -0,0 +1,40 @@
+import type { SourceMapBase } from '@volar/source-map';
+import type { DiagnosticFallback, PositionCapabilities, VirtualFile } from './types';
+
+/**
+ * Resolve the source range to report a diagnostic of `file` at by `file.diagnosticFallback`,
+ * for the diagnostics at generated range `[start, end]` that `map` can't map by `diagnostic` mappings.
+ */
+export function getDiagnosticFallbackRange(
+	file: VirtualFile,
+	map: SourceMapBase<PositionCapabilities>,
+	start: number,
+	end: number,
+): { fallback: DiagnosticFallback, range: [number, number]; } | undefined {
+
+	for (const fallback of file.diagnosticFallback?.fallbacks ?? []) {
+		if (fallback === 'enclosing') {
+			let enclosing: [number, number] | undefined;
+			let enclosingLength = Infinity;
+			for (const mapping of map.overlaps([start, end], 'generatedRange')) {
+				const [generatedStart, generatedEnd] = mapping.generatedRange;
+				if (generatedStart <= start && end <= generatedEnd && generatedEnd - generatedStart < enclosingLength) {
+					enclosing = mapping.sourceRange;
+					enclosingLength = generatedEnd - generatedStart;
+				}
+			}
+			if (enclosing) {
+				return { fallback, range: [enclosing[0], enclosing[1]] };
+			}
+		}
+		else if (fallback === 'anchor') {
+			const anchor = file.diagnosticFallback!.getAnchor?.(start, end);
+			if (anchor) {
+				return { fallback, range: [anchor.start, anchor.end] };
+			}
+		}
+		else if (fallback === 'top') {
+			return { fallback, range: [0, 0] };
+		}
+	}
+}
@@ -1,5 +1,6 @@
-import { Mapping, SourceMapBase } from '@volar/source-map';
+import { Mapping, SourceMapBase, TextChange } from '@volar/source-map';
 import { computed, shallowReactive as reactive } from '@vue/reactivity';
+import { validateVirtualFile } from './mappingValidator';
 import { Teleport } from './sourceMaps';
 import type { VirtualFile, LanguageModule, PositionCapabilities, TeleportMappingData } from './types';
 
@@ -14,8 +15,24 @@ export type DocumentRegistry = ReturnType<typeof createVirtualFilesHost>;
 
 type Row = [string, ts.IScriptSnapshot, VirtualFile, LanguageModule];
 
-export function createVirtualFilesHost(languageModules: LanguageModule[]) {
+export interface VirtualFilesHostOptions {
+	/**
+	 * Validate mappings of created and updated virtual files and log the problems, for language module authors.
+	 */
+	validateMappings?: boolean,
+	/**
+	 * Receives the problems of `validateMappings`, `console` by default.
+	 */
+	logger?: { warn(message: string): void; },
+	/**
+	 * File names are compared case-insensitively unless this is `true`.
+	 */
+	useCaseSensitiveFileNames?: boolean,
+}
+
+export function createVirtualFilesHost(languageModules: LanguageModule[], options: VirtualFilesHostOptions = {}) {
 
+	const normalizePath = createGetCanonicalFileName(!!options.useCaseSensitiveFileNames);
 	const files = reactive<Record<string, Row>>({});
 	const all = computed(() => Object.values(files));
 	const sourceMapsByFileName = computed(() => {
@@ -27,6 +44,27 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 		}
 		return map;
 	});
+	const virtualFilesByExternalSource = computed(() => {
+		const map = new Map<string, [VirtualFile, Row][]>();
+		for (const row of all.value) {
+			const rowKey = normalizePath(row[0]);
+			forEachEmbeddeds(row[2], file => {
+				const sources = new Set<string>();
+				for (const mapping of file.mappings) {
+					if (mapping.source !== undefined && normalizePath(mapping.source) !== rowKey) {
+						sources.add(normalizePath(mapping.source));
+					}
+				}
+				for (const source of sources) {
+					if (!map.has(source)) {
+						map.set(source, []);
+					}
+					map.get(source)!.push([file, row]);
+				}
+			});
+		}
+		return map;
+	});
 	const teleports = computed(() => {
 		const map = new Map<string, Teleport>();
 		for (const key in files) {
@@ -42,27 +80,54 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 		}
 		return map;
 	});
-	const _sourceMaps = new WeakMap<ts.IScriptSnapshot, WeakMap<Mapping<PositionCapabilities>[], SourceMapBase<PositionCapabilities>>>();
+	const _sourceMaps = new WeakMap<ts.IScriptSnapshot, WeakMap<Mapping<PositionCapabilities>[], Map<string, SourceMapBase<PositionCapabilities>>>>();
 	const _teleports = new WeakMap<ts.IScriptSnapshot, WeakMap<Mapping<TeleportMappingData>[], Teleport>>();
+	const _changedEmbeddeds = new WeakMap<VirtualFile, VirtualFile[]>();
+	// last source maps of each virtual file and the texts they map, the index of a source map is moved to the map of the regenerated virtual file
+	const _lastSourceMaps = new Map<string, {
+		sourceText: string,
+		text: string,
+		maps: Map<string, SourceMapBase<PositionCapabilities>>,
+	}>();
 
 	return {
-		update(fileName: string, snapshot: ts.IScriptSnapshot | undefined) {
+		/**
+		 * Key of `fileName` that file names of the registry are compared with.
+		 */
+		getCanonicalFileName: normalizePath,
+		/**
+		 * @param dependenciesChanged regenerate the virtual file with an unknown change range even if `snapshot` is not changed
+		 */
+		update(fileName: string, snapshot: ts.IScriptSnapshot | undefined, dependenciesChanged = false) {
 			const key = normalizePath(fileName);
 			if (snapshot) {
 				if (files[key]) {
 					const virtualFile = files[key][2];
+					const oldSnapshot = files[key][1];
+					const changeRange = dependenciesChanged ? undefined : snapshot.getChangeRange(oldSnapshot);
 					files[key][1] = snapshot;
-					files[key][3].updateSourceFile(virtualFile, snapshot);
+					const changedEmbeddeds = files[key][3].updateSourceFile(virtualFile, snapshot, oldSnapshot, changeRange);
+					if (changedEmbeddeds) {
+						_changedEmbeddeds.set(virtualFile, changedEmbeddeds);
+					}
+					else {
+						_changedEmbeddeds.delete(virtualFile);
+					}
+					validate(fileName, snapshot, virtualFile);
 					return virtualFile; // updated
 				}
 				for (const languageModule of languageModules) {
 					const virtualFile = languageModule.createSourceFile(fileName, snapshot);
 					if (virtualFile) {
 						files[key] = [fileName, snapshot, reactive(virtualFile), languageModule];
+						validate(fileName, snapshot, virtualFile);
 						return virtualFile; // created
 					}
 				}
 			}
+			if (files[key]) {
+				forEachEmbeddeds(files[key][2], file => _lastSourceMaps.delete(normalizePath(file.fileName)));
+			}
 			delete files[key]; // deleted
 		},
 		get(fileName: string) {
@@ -75,9 +140,33 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 			}
 		},
 		has: (fileName: string) => !!files[normalizePath(fileName)],
+		getDependencies(fileName: string) {
+			const row = files[normalizePath(fileName)];
+			return row?.[3].getDependencies?.(row[2]) ?? [];
+		},
+		/**
+		 * Embeddeds reported as changed by the language module in the last update, `undefined` if unknown.
+		 */
+		getChangedEmbeddeds(fileName: string) {
+			const row = files[normalizePath(fileName)];
+			if (row) {
+				return _changedEmbeddeds.get(row[2]);
+			}
+		},
 		all: () => all.value,
 		getTeleport: (fileName: string) => teleports.value.get(normalizePath(fileName)),
 		getSourceMap,
+		getSourceMaps,
+		/**
+		 * Virtual files of other source files that have mappings to `fileName`.
+		 */
+		getVirtualFilesByExternalSource(fileName: string) {
+			return (virtualFilesByExternalSource.value.get(normalizePath(fileName)) ?? []).map(([file, row]) => [
+				row[0],
+				row[1],
+				file,
+			] as const);
+		},
 		getSourceByVirtualFileName(fileName: string) {
 			const source = sourceMapsByFileName.value.get(normalizePath(fileName));
 			if (source) {
@@ -85,13 +174,34 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 					source[1][0],
 					source[1][1],
 					source[0],
+					source[1][3],
 				] as const;
 			}
 		},
 	};
 
+	function validate(fileName: string, snapshot: ts.IScriptSnapshot, virtualFile: VirtualFile) {
+		if (!options.validateMappings)
+			return;
+		const problems = validateVirtualFile(fileName, snapshot, virtualFile, source => files[normalizePath(source)]?.[1]);
+		for (const problem of problems) {
+			(options.logger ?? console).warn(`[${problem.kind}] ${problem.fileName}: ${problem.message}`);
+		}
+	}
+
+	/**
+	 * Map of the source file that `file` belongs to, for mappings without an external `source`.
+	 */
 	function getSourceMap(file: VirtualFile) {
-		const snapshot = sourceMapsByFileName.value.get(normalizePath(file.fileName))![1][1];
+		const fileName = sourceMapsByFileName.value.get(normalizePath(file.fileName))![1][0];
+		return getSourceMaps(file).get(fileName)!;
+	}
+
+	/**
+	 * Maps of `file` for each source file it has mappings to, the source file that `file` belongs to comes first.
+	 */
+	function getSourceMaps(file: VirtualFile) {
+		const [fileName, snapshot] = sourceMapsByFileName.value.get(normalizePath(file.fileName))![1];
 		let map1 = _sourceMaps.get(snapshot);
 		if (!map1) {
 			map1 = new WeakMap();
@@ -99,8 +209,29 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 		}
 		let map2 = map1.get(file.mappings);
 		if (!map2) {
-			map2 = new SourceMapBase(file.mappings);
+			map2 = new Map();
+			const key = normalizePath(fileName);
+			const last = _lastSourceMaps.get(normalizePath(file.fileName));
+			const sourceText = snapshot.getText(0, snapshot.getLength());
+			const mappingsBySource = new Map<string, Mapping<PositionCapabilities>[]>();
+			for (const mapping of file.mappings) {
+				const source = mapping.source === undefined || normalizePath(mapping.source) === key ? fileName : mapping.source;
+				if (!mappingsBySource.has(source)) {
+					mappingsBySource.set(source, []);
+				}
+				mappingsBySource.get(source)!.push(mapping);
+			}
+			const lastMap = last?.maps.get(fileName);
+			map2.set(fileName, lastMap
+				? lastMap.update(mappingsBySource.get(fileName) ?? [], getTextChange(last!.sourceText, sourceText), getTextChange(last!.text, file.text))
+				: new SourceMapBase(mappingsBySource.get(fileName) ?? []));
+			for (const [source, mappings] of mappingsBySource) {
+				if (source !== fileName) {
+					map2.set(source, new SourceMapBase(mappings));
+				}
+			}
 			map1.set(file.mappings, map2);
+			_lastSourceMaps.set(normalizePath(file.fileName), { sourceText, text: file.text, maps: map2 });
 		}
 		return map2;
 	}
@@ -123,6 +254,28 @@ export function createVirtualFilesHost(languageModules: LanguageModule[]) {
 	}
 }
 
-function normalizePath(fileName: string) {
-	return fileName.replace(/\\/g, '/').toLowerCase();
+/**
+ * The range of `oldText` that is replaced, found by the common prefix and suffix of the texts.
+ */
+function getTextChange(oldText: string, newText: string): TextChange {
+	const maxLength = Math.min(oldText.length, newText.length);
+	let start = 0;
+	while (start < maxLength && oldText.charCodeAt(start) === newText.charCodeAt(start)) {
+		start++;
+	}
+	let suffix = 0;
+	while (suffix < maxLength - start && oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)) {
+		suffix++;
+	}
+	return {
+		start,
+		end: oldText.length - suffix,
+		delta: newText.length - oldText.length,
+	};
+}
+
+export function createGetCanonicalFileName(useCaseSensitiveFileNames: boolean) {
+	return useCaseSensitiveFileNames
+		? (fileName: string) => fileName.replace(/\\/g, '/')
+		: (fileName: string) => fileName.replace(/\\/g, '/').toLowerCase();
 }
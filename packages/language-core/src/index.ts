@@ -1,4 +1,6 @@
+export * from './diagnosticFallback';
 export * from './documentRegistry';
 export * from './languageContext';
+export * from './mappingValidator';
 export * from './sourceMaps';
 export * from './types';
@@ -1,6 +1,6 @@
 import { posix as path } from 'path';
 import type * as ts from 'typescript/lib/tsserverlibrary';
-import { createVirtualFilesHost, forEachEmbeddeds } from './documentRegistry';
+import { createGetCanonicalFileName, createVirtualFilesHost, forEachEmbeddeds, VirtualFilesHostOptions } from './documentRegistry';
 import { LanguageModule, VirtualFile, LanguageServiceHost, EmbeddedFileKind } from './types';
 
 export type EmbeddedLanguageContext = ReturnType<typeof createEmbeddedLanguageServiceHost>;
@@ -8,6 +8,7 @@ export type EmbeddedLanguageContext = ReturnType<typeof createEmbeddedLanguageSe
 export function createEmbeddedLanguageServiceHost(
 	host: LanguageServiceHost,
 	languageModules: LanguageModule[],
+	options: VirtualFilesHostOptions = {},
 ) {
 
 	for (const languageModule of languageModules.reverse()) {
@@ -27,12 +28,15 @@ export function createEmbeddedLanguageServiceHost(
 	let lastProjectVersion: string | undefined;
 	let tsProjectVersion = 0;
 
-	const documentRegistry = createVirtualFilesHost(languageModules);
+	const useCaseSensitiveFileNames = options.useCaseSensitiveFileNames ?? host.useCaseSensitiveFileNames?.() ?? false;
+	const getCanonicalFileName = createGetCanonicalFileName(useCaseSensitiveFileNames);
+	const documentRegistry = createVirtualFilesHost(languageModules, { ...options, useCaseSensitiveFileNames });
 	const ts = host.getTypeScriptModule();
 	const scriptSnapshots = new Map<string, [string, ts.IScriptSnapshot]>();
 	const sourceTsFileVersions = new Map<string, string>();
 	const sourceVueFileVersions = new Map<string, string>();
 	const virtualFileVersions = new Map<string, string>();
+	const dependencyVersions = new Map<string, string | undefined>();
 	const _tsHost: Partial<ts.LanguageServiceHost> = {
 		fileExists: host.fileExists
 			? fileName => {
@@ -63,18 +67,24 @@ export function createEmbeddedLanguageServiceHost(
 		getScriptFileNames,
 		getScriptVersion,
 		getScriptSnapshot,
+		getParsedCommandLine: host.getParsedCommandLine
+			? fileName => {
+				const parsed = host.getParsedCommandLine!(fileName);
+				if (parsed) {
+					// source files of referenced projects are redirected to their outputs by the virtual file names
+					return {
+						...parsed,
+						fileNames: parsed.fileNames.map(getTypeScriptHostFileNames).flat(),
+					};
+				}
+			}
+			: undefined,
 		readDirectory: (_path, extensions, exclude, include, depth) => {
 			const result = host.readDirectory?.(_path, extensions, exclude, include, depth) ?? [];
-			for (const [fileName] of documentRegistry.all()) {
-				const vuePath2 = path.join(_path, path.basename(fileName));
-				if (path.relative(_path.toLowerCase(), fileName.toLowerCase()).startsWith('..')) {
-					continue;
-				}
-				if (!depth && fileName.toLowerCase() === vuePath2.toLowerCase()) {
-					result.push(vuePath2);
-				}
-				else if (depth) {
-					result.push(vuePath2); // TODO: depth num
+			const resultKeys = new Set(result.map(getCanonicalFileName));
+			for (const fileName of readVirtualDirectory(_path, extensions, exclude, include, depth)) {
+				if (!resultKeys.has(getCanonicalFileName(fileName))) {
+					result.push(fileName);
 				}
 			}
 			return result;
@@ -156,7 +166,38 @@ export function createEmbeddedLanguageServiceHost(
 			if (snapshot) {
 				const virtualFile = documentRegistry.update(fileName, snapshot);
 				if (virtualFile) {
+					sourceVueFileVersions.set(fileName, host.getScriptVersion(fileName));
 					checkRemains.delete(fileName);
+					tsFileUpdated = true;
+				}
+			}
+		}
+
+		// regenerate .vue when its dependencies changed
+		const changedDependencies = new Set<string>();
+
+		for (const [fileName] of documentRegistry.all()) {
+			for (const dependency of documentRegistry.getDependencies(fileName)) {
+				if (changedDependencies.has(dependency))
+					continue;
+				const newVersion = host.getScriptSnapshot(dependency) ? host.getScriptVersion(dependency) : undefined;
+				if (dependencyVersions.has(dependency) && dependencyVersions.get(dependency) !== newVersion) {
+					changedDependencies.add(dependency);
+				}
+				dependencyVersions.set(dependency, newVersion);
+			}
+		}
+
+		const dependentFiles = new Set<string>();
+
+		if (changedDependencies.size) {
+			for (const [fileName, snapshot, virtualFile] of documentRegistry.all()) {
+				if (
+					!sourceFilesShouldUpdate.some(update => update[0] === fileName)
+					&& documentRegistry.getDependencies(fileName).some(dependency => changedDependencies.has(dependency))
+				) {
+					sourceFilesShouldUpdate.push([fileName, virtualFile, snapshot]);
+					dependentFiles.add(fileName);
 				}
 			}
 		}
@@ -188,10 +229,6 @@ export function createEmbeddedLanguageServiceHost(
 
 		for (const [fileName, virtualFile, snapshot] of sourceFilesShouldUpdate) {
 
-			forEachEmbeddeds(virtualFile, embedded => {
-				virtualFileVersions.delete(embedded.fileName);
-			});
-
 			const oldScripts: Record<string, string> = {};
 			const newScripts: Record<string, string> = {};
 
@@ -203,7 +240,16 @@ export function createEmbeddedLanguageServiceHost(
 				});
 			}
 
-			documentRegistry.update(fileName, snapshot);
+			documentRegistry.update(fileName, snapshot, dependentFiles.has(fileName));
+
+			// only reset versions of embeddeds that language module reported as changed
+			const changedEmbeddeds = documentRegistry.getChangedEmbeddeds(fileName);
+
+			forEachEmbeddeds(virtualFile, embedded => {
+				if (!changedEmbeddeds || changedEmbeddeds.includes(embedded)) {
+					virtualFileVersions.delete(embedded.fileName);
+				}
+			});
 
 			if (!tsFileUpdated) {
 				forEachEmbeddeds(virtualFile, embedded => {
@@ -226,6 +272,24 @@ export function createEmbeddedLanguageServiceHost(
 			tsProjectVersion++;
 		}
 	}
+	function getTypeScriptHostFileNames(fileName: string) {
+		const snapshot = documentRegistry.get(fileName)?.[0] ?? host.getScriptSnapshot(fileName);
+		if (!snapshot)
+			return [fileName];
+		for (const languageModule of languageModules) {
+			const virtualFile = documentRegistry.get(fileName)?.[1] ?? languageModule.createSourceFile(fileName, snapshot);
+			if (virtualFile) {
+				const fileNames: string[] = [];
+				forEachEmbeddeds(virtualFile, embedded => {
+					if (embedded.kind === EmbeddedFileKind.TypeScriptHostFile) {
+						fileNames.push(embedded.fileName);
+					}
+				});
+				return fileNames;
+			}
+		}
+		return [fileName];
+	}
 	function getScriptFileNames() {
 
 		const tsFileNames = new Set<string>();
@@ -246,6 +310,81 @@ export function createEmbeddedLanguageServiceHost(
 
 		return [...tsFileNames];
 	}
+	/**
+	 * Match registered source files with the same glob and depth semantics as `ts.sys.readDirectory`.
+	 * A source file passes the `extensions` filter if the file itself or one of its TypeScript host files does.
+	 */
+	function readVirtualDirectory(
+		rootDir: string,
+		extensions: readonly string[] | undefined,
+		excludes: readonly string[] | undefined,
+		includes: readonly string[] | undefined,
+		depth: number | undefined,
+	): string[] {
+
+		const entries = new Map<string, { files: Set<string>, directories: Set<string> }>();
+
+		for (const [fileName, _snapshot, virtualFile] of documentRegistry.all()) {
+			if (extensions && !extensions.some(ext => fileName.endsWith(ext) || hasTypeScriptHostFile(virtualFile, ext))) {
+				continue;
+			}
+			let name = path.basename(fileName);
+			let dir = path.dirname(fileName);
+			let isFile = true;
+			while (true) {
+				const key = getCanonicalFileName(dir);
+				if (!entries.has(key)) {
+					entries.set(key, { files: new Set(), directories: new Set() });
+				}
+				const entry = entries.get(key)!;
+				if (isFile) {
+					entry.files.add(name);
+				}
+				else if (entry.directories.has(name)) {
+					break;
+				}
+				else {
+					entry.directories.add(name);
+				}
+				const parent = path.dirname(dir);
+				if (parent === dir)
+					break;
+				name = path.basename(dir);
+				dir = parent;
+				isFile = false;
+			}
+		}
+
+		if (!entries.size)
+			return [];
+
+		return ts.matchFiles(
+			rootDir,
+			undefined,
+			excludes,
+			includes,
+			useCaseSensitiveFileNames,
+			host.getCurrentDirectory(),
+			depth,
+			(dir: string) => {
+				const entry = entries.get(getCanonicalFileName(dir.length > 1 && dir.endsWith('/') ? dir.slice(0, -1) : dir));
+				return {
+					files: entry ? [...entry.files] : [],
+					directories: entry ? [...entry.directories] : [],
+				};
+			},
+			(fileName: string) => fileName,
+		);
+	}
+	function hasTypeScriptHostFile(virtualFile: VirtualFile, ext: string) {
+		let result = false;
+		forEachEmbeddeds(virtualFile, embedded => {
+			if (embedded.kind === EmbeddedFileKind.TypeScriptHostFile && embedded.fileName.endsWith(ext)) {
+				result = true;
+			}
+		});
+		return result;
+	}
 	function getScriptVersion(fileName: string) {
 		let source = documentRegistry.getSourceByVirtualFileName(fileName);
 		if (source) {
@@ -253,7 +392,8 @@ export function createEmbeddedLanguageServiceHost(
 				return virtualFileVersions.get(source[2].fileName)!;
 			}
 			else {
-				let version = ts.sys?.createHash?.(source[2].text) ?? source[2].text;
+				// same hash as tsc so that versions in .tsbuildinfo are reusable across runs
+				let version = ts.sys?.createHash?.(source[2].text) ?? ts.generateDjb2Hash(source[2].text);
 				if (host.isTsc) {
 					// fix https://github.com/johnsoncodehk/volar/issues/1082
 					version = host.getScriptVersion(source[0]) + ':' + version;
@@ -266,19 +406,19 @@ export function createEmbeddedLanguageServiceHost(
 	}
 	function getScriptSnapshot(fileName: string) {
 		const version = getScriptVersion(fileName);
-		const cache = scriptSnapshots.get(fileName.toLowerCase());
+		const cache = scriptSnapshots.get(getCanonicalFileName(fileName));
 		if (cache && cache[0] === version) {
 			return cache[1];
 		}
 		const source = documentRegistry.getSourceByVirtualFileName(fileName);
 		if (source) {
 			const snapshot = ts.ScriptSnapshot.fromString(source[2].text);
-			scriptSnapshots.set(fileName.toLowerCase(), [version, snapshot]);
+			scriptSnapshots.set(getCanonicalFileName(fileName), [version, snapshot]);
 			return snapshot;
 		}
 		let tsScript = host.getScriptSnapshot(fileName);
 		if (tsScript) {
-			scriptSnapshots.set(fileName.toLowerCase(), [version, tsScript]);
+			scriptSnapshots.set(getCanonicalFileName(fileName), [version, tsScript]);
 			return tsScript;
 		}
 	}
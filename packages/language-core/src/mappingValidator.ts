@@ -0,0 +1,132 @@
+import { Mapping, SourceMapBase } from '@volar/source-map';
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import { forEachEmbeddeds } from './documentRegistry';
+import type { PositionCapabilities, VirtualFile } from './types';
+
+export interface MappingProblem {
+	kind: 'outOfBounds' | 'lengthMismatch' | 'textMismatch' | 'conflictingCapabilities' | 'unknownSource',
+	fileName: string,
+	mapping: Mapping<PositionCapabilities>,
+	/**
+	 * The other mapping for `conflictingCapabilities`
+	 */
+	otherMapping?: Mapping<PositionCapabilities>,
+	message: string,
+}
+
+/**
+ * Check the mappings of `virtualFile` and its embeddeds against the source file.
+ */
+export function validateVirtualFile(
+	sourceFileName: string,
+	sourceSnapshot: ts.IScriptSnapshot,
+	virtualFile: VirtualFile,
+	getSourceSnapshot: (source: string) => ts.IScriptSnapshot | undefined = () => undefined,
+) {
+
+	const problems: MappingProblem[] = [];
+	const sourceTexts = new Map<string | undefined, string | undefined>();
+
+	sourceTexts.set(undefined, sourceSnapshot.getText(0, sourceSnapshot.getLength()));
+	sourceTexts.set(sourceFileName, sourceTexts.get(undefined));
+
+	forEachEmbeddeds(virtualFile, file => {
+
+		const map = new SourceMapBase(file.mappings);
+		const indexes = new Map(file.mappings.map((mapping, i) => [mapping, i]));
+
+		for (let i = 0; i < file.mappings.length; i++) {
+
+			const mapping = file.mappings[i];
+			const sourceText = getSourceText(mapping.source);
+
+			if (sourceText === undefined) {
+				report('unknownSource', mapping, `Unknown source "${mapping.source}".`);
+				continue;
+			}
+
+			if (isOutOfBounds(mapping.generatedRange, file.text.length)) {
+				report('outOfBounds', mapping, `Generated range [${mapping.generatedRange}] is out of bounds of virtual file (length: ${file.text.length}).`);
+				continue;
+			}
+
+			if (isOutOfBounds(mapping.sourceRange, sourceText.length)) {
+				report('outOfBounds', mapping, `Source range [${mapping.sourceRange}] is out of bounds of source file (length: ${sourceText.length}).`);
+				continue;
+			}
+
+			const generatedCode = file.text.substring(mapping.generatedRange[0], mapping.generatedRange[1]);
+			const sourceCode = sourceText.substring(mapping.sourceRange[0], mapping.sourceRange[1]);
+
+			if (generatedCode.length === sourceCode.length) {
+				// same length is treated as verbatim by source maps
+				if (generatedCode !== sourceCode) {
+					report('textMismatch', mapping, `Generated code ${JSON.stringify(generatedCode)} is not the same as source code ${JSON.stringify(sourceCode)}.`);
+				}
+			}
+			else if (
+				generatedCode.length && sourceCode.length
+				&& (generatedCode.startsWith(sourceCode) || sourceCode.startsWith(generatedCode))
+			) {
+				report('lengthMismatch', mapping, `Generated code ${JSON.stringify(generatedCode)} and source code ${JSON.stringify(sourceCode)} look verbatim but have different lengths.`);
+			}
+
+			for (const other of map.overlaps(mapping.generatedRange, 'generatedRange')) {
+
+				// report each pair once
+				if (indexes.get(other)! <= i)
+					continue;
+
+				const start = Math.max(mapping.generatedRange[0], other.generatedRange[0]);
+				const end = Math.min(mapping.generatedRange[1], other.generatedRange[1]);
+				if (start >= end)
+					continue;
+
+				const conflicts = getConflictingCapabilities(mapping.data, other.data);
+				if (conflicts.length) {
+					problems.push({
+						kind: 'conflictingCapabilities',
+						fileName: file.fileName,
+						mapping,
+						otherMapping: other,
+						message: `Generated ranges [${mapping.generatedRange}] and [${other.generatedRange}] overlap with conflicting capabilities: ${conflicts.join(', ')}.`,
+					});
+				}
+			}
+		}
+
+		function report(kind: MappingProblem['kind'], mapping: Mapping<PositionCapabilities>, message: string) {
+			problems.push({
+				kind,
+				fileName: file.fileName,
+				mapping,
+				message,
+			});
+		}
+	});
+
+	return problems;
+
+	function getSourceText(source: string | undefined) {
+		if (!sourceTexts.has(source)) {
+			const snapshot = getSourceSnapshot(source!);
+			sourceTexts.set(source, snapshot?.getText(0, snapshot.getLength()));
+		}
+		return sourceTexts.get(source);
+	}
+}
+
+function isOutOfBounds(range: [number, number], length: number) {
+	return range[0] < 0 || range[1] > length || range[0] > range[1];
+}
+
+function getConflictingCapabilities(a: PositionCapabilities, b: PositionCapabilities) {
+	const conflicts: string[] = [];
+	for (const key in a) {
+		const capability = key as keyof PositionCapabilities;
+		if (a[capability] !== undefined && b[capability] !== undefined && !!a[capability] !== !!b[capability]) {
+			conflicts.push(capability);
+		}
+	}
+	return conflicts;
+}
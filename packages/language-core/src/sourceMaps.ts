@@ -14,4 +14,15 @@ export class Teleport extends SourceMaps.SourceMapBase<TeleportMappingData> {
 			}
 		}
 	}
+	/**
+	 * Like `findTeleports()`, but map both ends of the range, so the teleported ranges keep their own lengths.
+	 */
+	*findTeleportRanges(start: number, end: number, filter?: (data: TeleportCapabilities) => boolean) {
+		for (const [range] of this.toGeneratedRanges(start, end, data => !filter || filter(data.toSourceCapabilities))) {
+			yield range;
+		}
+		for (const [range] of this.toSourceRanges(start, end, data => !filter || filter(data.toGenedCapabilities))) {
+			yield range;
+		}
+	}
 }
@@ -0,0 +1,24 @@
+import 'typescript/lib/tsserverlibrary';
+
+declare module 'typescript/lib/tsserverlibrary' {
+
+	/**
+	 * @internal
+	 */
+	function matchFiles(
+		path: string,
+		extensions: readonly string[] | undefined,
+		excludes: readonly string[] | undefined,
+		includes: readonly string[] | undefined,
+		useCaseSensitiveFileNames: boolean,
+		currentDirectory: string,
+		depth: number | undefined,
+		getFileSystemEntries: (path: string) => { readonly files: readonly string[], readonly directories: readonly string[]; },
+		realpath: (path: string) => string,
+	): string[];
+
+	/**
+	 * @internal
+	 */
+	function generateDjb2Hash(data: string): string;
+}
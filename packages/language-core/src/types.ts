@@ -53,6 +53,31 @@ export enum EmbeddedFileKind {
 	TypeScriptHostFile = 1,
 }
 
+export type DiagnosticFallback = 'enclosing' | 'anchor' | 'top';
+
+export interface DiagnosticFallbackPolicy {
+	/**
+	 * Fallbacks to try in order for diagnostics that can't be mapped by `diagnostic` mappings.
+	 * - `enclosing`: the source range of the innermost mapping that encloses the diagnostic, regardless of its capabilities
+	 * - `anchor`: the source range returned by `getAnchor()`
+	 * - `top`: the start of the source file
+	 */
+	fallbacks: DiagnosticFallback[],
+	/**
+	 * @param start generated offset of the diagnostic
+	 * @param end generated offset of the diagnostic
+	 * @returns source range to report the diagnostic at
+	 */
+	getAnchor?(start: number, end: number): TextRange | undefined,
+}
+
+/**
+ * Attached to the diagnostics reported at a fallback range.
+ */
+export interface DiagnosticMappingMetadata {
+	mappingFallback?: DiagnosticFallback,
+}
+
 export interface VirtualFile {
 	fileName: string,
 	text: string,
@@ -60,15 +85,45 @@ export interface VirtualFile {
 	capabilities: DocumentCapabilities,
 	mappings: Mapping<PositionCapabilities>[],
 	teleportMappings?: Mapping<TeleportMappingData>[],
+	/**
+	 * Diagnostics of the generated code without `diagnostic` mappings are dropped if not set.
+	 */
+	diagnosticFallback?: DiagnosticFallbackPolicy,
 	embeddeds: VirtualFile[],
 }
 
 export interface LanguageModule<T extends VirtualFile = VirtualFile> {
 	createSourceFile(fileName: string, snapshot: ts.IScriptSnapshot): T | undefined;
-	updateSourceFile(virtualFile: T, snapshot: ts.IScriptSnapshot): void;
+	/**
+	 * @param changeRange change between `oldSnapshot` and `snapshot`, `undefined` if unknown or if the file is regenerated because its dependencies changed
+	 * @returns embeddeds that changed or were created, nothing to treat all embeddeds as changed
+	 */
+	updateSourceFile(virtualFile: T, snapshot: ts.IScriptSnapshot, oldSnapshot: ts.IScriptSnapshot, changeRange: ts.TextChangeRange | undefined): void | VirtualFile[];
+	/**
+	 * Other files that `virtualFile` is generated from, e.g. a global components `.d.ts` or a config JSON.
+	 * `virtualFile` is regenerated when any of them is changed, created or deleted.
+	 */
+	getDependencies?(virtualFile: T): string[];
+	/**
+	 * How tsc emits the virtual files, only declaration files are emitted by default,
+	 * and an error is reported for the JavaScript files that are not emitted.
+	 */
+	emit?: LanguageModuleEmitOptions;
 	proxyLanguageServiceHost?(host: LanguageServiceHost): Partial<LanguageServiceHost>;
 }
 
+export interface LanguageModuleEmitOptions {
+	/**
+	 * Emit JavaScript files for the virtual files.
+	 */
+	js?: boolean,
+	/**
+	 * @param outputFileName file name given by TypeScript, e.g. `App.svelte.d.ts`, `App.svelte.d.ts.map`
+	 * @returns the file name to write
+	 */
+	getOutputFileName?(sourceFileName: string, outputFileName: string): string,
+}
+
 export interface LanguageServiceHost extends ts.LanguageServiceHost {
 	getTypeScriptModule(): typeof import('typescript/lib/tsserverlibrary');
 	isTsc?: boolean,
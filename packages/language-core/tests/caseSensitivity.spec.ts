@@ -0,0 +1,64 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createEmbeddedLanguageServiceHost, createVirtualFilesHost } from '../out';
+import { createFooLanguageModule, createTestHost } from './utils/fooLanguage';
+
+describe(`Test useCaseSensitiveFileNames`, () => {
+
+	const languageModule = createFooLanguageModule((_, text) => ({ text, capabilities: {}, mappings: [] }));
+
+	it(`registry with case sensitive file names`, () => {
+
+		const host = createVirtualFilesHost([languageModule], { useCaseSensitiveFileNames: true });
+		host.update('/A.foo', ts.ScriptSnapshot.fromString('A'));
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('a'));
+
+		expect(host.all().map(([fileName]) => fileName)).toEqual(['/A.foo', '/a.foo']);
+		expect(host.getSourceByVirtualFileName('/A.foo.ts')?.[0]).toBe('/A.foo');
+		expect(host.getSourceByVirtualFileName('/a.foo.ts')?.[0]).toBe('/a.foo');
+		expect(host.has('/A.FOO')).toBe(false);
+	});
+
+	it(`registry with case insensitive file names`, () => {
+
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/A.foo', ts.ScriptSnapshot.fromString('A'));
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('a'));
+
+		expect(host.all().length).toBe(1);
+		expect(host.has('/A.FOO')).toBe(true);
+		expect(host.getSourceByVirtualFileName('/A.FOO.TS')?.[1].getText(0, 1)).toBe('a');
+	});
+
+	for (const useCaseSensitiveFileNames of [true, false]) {
+
+		it(`language service host (useCaseSensitiveFileNames: ${useCaseSensitiveFileNames})`, () => {
+
+			const files = new Map([['/src/A.foo', 'A']]);
+			if (useCaseSensitiveFileNames) {
+				files.set('/src/a.foo', 'a');
+			}
+			const host = createTestHost(files, {
+				useCaseSensitiveFileNames: () => useCaseSensitiveFileNames,
+				readDirectory: () => [],
+			});
+			const context = createEmbeddedLanguageServiceHost(host, [languageModule]);
+			const tsHost = context.typescriptLanguageServiceHost;
+			const getText = (fileName: string) => tsHost.getScriptSnapshot(fileName)?.getText(0, 1);
+
+			if (useCaseSensitiveFileNames) {
+				expect(tsHost.getScriptFileNames()).toEqual(['/src/A.foo.ts', '/src/a.foo.ts']);
+				expect(getText('/src/A.foo.ts')).toBe('A');
+				expect(getText('/src/a.foo.ts')).toBe('a');
+				expect(tsHost.readDirectory!('/SRC', ['.foo'], undefined, undefined, 1)).toEqual([]);
+				expect(tsHost.readDirectory!('/src', ['.foo'], undefined, undefined, 1)).toEqual(['/src/A.foo', '/src/a.foo']);
+			}
+			else {
+				expect(tsHost.getScriptFileNames()).toEqual(['/src/A.foo.ts']);
+				expect(getText('/src/A.foo.ts')).toBe('A');
+				expect(getText('/src/a.foo.ts')).toBe('A');
+				expect(tsHost.readDirectory!('/SRC', ['.foo'], undefined, undefined, 1)).toEqual(['/SRC/A.foo']);
+			}
+		});
+	}
+});
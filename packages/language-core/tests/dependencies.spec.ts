@@ -0,0 +1,97 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createEmbeddedLanguageServiceHost } from '../out';
+import { createFooLanguageModule, createTestHost } from './utils/fooLanguage';
+
+describe(`Test LanguageModule.getDependencies()`, () => {
+
+	it(`regenerate virtual file when dependency changed`, () => {
+
+		const files = new Map([
+			['/a.foo', 'a'],
+			['/config.json', '1'],
+		]);
+		const versions = new Map<string, number>();
+		let projectVersion = 0;
+
+		const languageModule = createFooLanguageModule(
+			(_, text) => ({
+				text: text + ':' + files.get('/config.json'),
+				capabilities: {},
+				mappings: [],
+			}),
+			{
+				getDependencies() {
+					return ['/config.json'];
+				},
+			},
+		);
+		const host = createTestHost(files, {
+			getProjectVersion: () => projectVersion.toString(),
+			getScriptFileNames: () => ['/a.foo'],
+			getScriptVersion: fileName => (versions.get(fileName) ?? 0).toString(),
+		});
+		const context = createEmbeddedLanguageServiceHost(host, [languageModule]);
+		const getText = () => context.typescriptLanguageServiceHost.getScriptSnapshot('/a.foo.ts')?.getText(0, Infinity);
+
+		expect(getText()).toBe('a:1');
+
+		files.set('/config.json', '2');
+		versions.set('/config.json', 1);
+		projectVersion++;
+		expect(getText()).toBe('a:2');
+
+		files.delete('/config.json');
+		projectVersion++;
+		expect(getText()).toBe('a:undefined');
+	});
+
+	it(`regenerate virtual file of modules that skip unchanged text`, () => {
+
+		const files = new Map([
+			['/a.foo', 'a'],
+			['/config.json', '1'],
+		]);
+		const versions = new Map<string, number>();
+		let projectVersion = 0;
+
+		// the same snapshot as long as the text is not changed, like the snapshots of editors
+		const sourceSnapshot = ts.ScriptSnapshot.fromString('a');
+		sourceSnapshot.getChangeRange = () => ts.unchangedTextChangeRange;
+
+		const languageModule = createFooLanguageModule(
+			(_, text) => ({
+				text: text + ':' + files.get('/config.json'),
+				capabilities: {},
+				mappings: [],
+			}),
+			{
+				getDependencies() {
+					return ['/config.json'];
+				},
+			},
+		);
+		const updateSourceFile = languageModule.updateSourceFile;
+		languageModule.updateSourceFile = (virtualFile, snapshot, oldSnapshot, changeRange) => {
+			if (changeRange && changeRange.span.length === 0 && changeRange.newLength === 0) {
+				return []; // nothing changed
+			}
+			return updateSourceFile(virtualFile, snapshot, oldSnapshot, changeRange);
+		};
+		const host = createTestHost(files, {
+			getProjectVersion: () => projectVersion.toString(),
+			getScriptFileNames: () => ['/a.foo'],
+			getScriptVersion: fileName => (versions.get(fileName) ?? 0).toString(),
+			getScriptSnapshot: fileName => fileName === '/a.foo' ? sourceSnapshot : files.has(fileName) ? ts.ScriptSnapshot.fromString(files.get(fileName)!) : undefined,
+		});
+		const context = createEmbeddedLanguageServiceHost(host, [languageModule]);
+		const getText = () => context.typescriptLanguageServiceHost.getScriptSnapshot('/a.foo.ts')?.getText(0, Infinity);
+
+		expect(getText()).toBe('a:1');
+
+		files.set('/config.json', '2');
+		versions.set('/config.json', 1);
+		projectVersion++;
+		expect(getText()).toBe('a:2');
+	});
+});
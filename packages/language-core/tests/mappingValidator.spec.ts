@@ -0,0 +1,67 @@
+import * as ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { createVirtualFilesHost, EmbeddedFileKind, validateVirtualFile, VirtualFile } from '../out';
+import { createFooLanguageModule } from './utils/fooLanguage';
+
+describe(`Test validateVirtualFile()`, () => {
+
+	const sourceSnapshot = ts.ScriptSnapshot.fromString(`<script>let foo = 1;</script>`);
+
+	function validate(mappings: VirtualFile['mappings']) {
+		const virtualFile: VirtualFile = {
+			fileName: '/a.svelte.ts',
+			text: `let foo = 1;`,
+			kind: EmbeddedFileKind.TypeScriptHostFile,
+			capabilities: {},
+			mappings,
+			embeddeds: [],
+		};
+		return validateVirtualFile('/a.svelte', sourceSnapshot, virtualFile).map(problem => problem.kind);
+	}
+
+	it(`valid mappings`, () => {
+		expect(validate([
+			{ sourceRange: [8, 20], generatedRange: [0, 12], data: { hover: true } },
+			{ sourceRange: [12, 15], generatedRange: [4, 7], data: { rename: true } },
+		])).toEqual([]);
+	});
+
+	it(`out of bounds`, () => {
+		expect(validate([{ sourceRange: [8, 20], generatedRange: [0, 13], data: {} }])).toEqual(['outOfBounds']);
+		expect(validate([{ sourceRange: [30, 31], generatedRange: [0, 1], data: {} }])).toEqual(['outOfBounds']);
+	});
+
+	it(`length and text mismatch`, () => {
+		expect(validate([{ sourceRange: [12, 15], generatedRange: [4, 8], data: {} }])).toEqual(['lengthMismatch']);
+		expect(validate([{ sourceRange: [11, 14], generatedRange: [4, 7], data: {} }])).toEqual(['textMismatch']);
+	});
+
+	it(`conflicting capabilities`, () => {
+		expect(validate([
+			{ sourceRange: [8, 20], generatedRange: [0, 12], data: { diagnostic: true } },
+			{ sourceRange: [12, 15], generatedRange: [4, 7], data: { diagnostic: false } },
+		])).toEqual(['conflictingCapabilities']);
+	});
+
+	it(`unknown source`, () => {
+		expect(validate([{ source: '/b.svelte', sourceRange: [0, 3], generatedRange: [4, 7], data: {} }])).toEqual(['unknownSource']);
+	});
+
+	it(`log problems through the logger of the host`, () => {
+
+		const warnings: string[] = [];
+		const languageModule = createFooLanguageModule((_, text) => ({
+			text,
+			capabilities: {},
+			mappings: [{ sourceRange: [0, 4], generatedRange: [0, 4], data: {} }],
+		}));
+		const host = createVirtualFilesHost([languageModule], {
+			validateMappings: true,
+			logger: { warn: message => warnings.push(message) },
+		});
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('foo'));
+
+		expect(warnings.length).toBe(1);
+		expect(warnings[0]).toMatch(/^\[outOfBounds\] \/a\.foo\.ts: /);
+	});
+});
@@ -0,0 +1,56 @@
+import * as ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { createVirtualFilesHost, EmbeddedFileKind, LanguageModule } from '../out';
+
+describe(`Test virtual files with multiple sources`, () => {
+
+	const languageModule: LanguageModule = {
+		createSourceFile(fileName, snapshot) {
+			const text = snapshot.getText(0, snapshot.getLength());
+			return {
+				fileName,
+				text,
+				kind: EmbeddedFileKind.TextFile,
+				capabilities: {},
+				mappings: [],
+				embeddeds: fileName.endsWith('.ts') ? [{
+					fileName: fileName + '.gen.ts',
+					text: 'foo;bar;',
+					kind: EmbeddedFileKind.TypeScriptHostFile,
+					capabilities: {},
+					mappings: [
+						{ sourceRange: [0, 3], generatedRange: [0, 3], data: {} },
+						{ source: '/app.html', sourceRange: [5, 8], generatedRange: [4, 7], data: {} },
+					],
+					embeddeds: [],
+				}] : [],
+			};
+		},
+		updateSourceFile() { },
+	};
+
+	it(`getSourceMaps()`, () => {
+
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/app.ts', ts.ScriptSnapshot.fromString('foo'));
+		host.update('/app.html', ts.ScriptSnapshot.fromString('<div>bar</div>'));
+
+		const virtualFile = host.getSourceByVirtualFileName('/app.ts.gen.ts')![2];
+		const maps = [...host.getSourceMaps(virtualFile)];
+
+		expect(maps.map(([fileName]) => fileName)).toEqual(['/app.ts', '/app.html']);
+		expect(host.getSourceMap(virtualFile).toSourceOffset(5)).toBeUndefined();
+		expect(maps[1][1].toSourceOffset(5)?.[0]).toBe(6);
+	});
+
+	it(`getVirtualFilesByExternalSource()`, () => {
+
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/app.ts', ts.ScriptSnapshot.fromString('foo'));
+
+		expect(host.getVirtualFilesByExternalSource('/app.html').map(([fileName, _, file]) => [fileName, file.fileName])).toEqual([
+			['/app.ts', '/app.ts.gen.ts'],
+		]);
+		expect(host.getVirtualFilesByExternalSource('/app.ts')).toEqual([]);
+	});
+});
@@ -0,0 +1,86 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createEmbeddedLanguageServiceHost } from '../out';
+import { createFooLanguageModule, createTestHost } from './utils/fooLanguage';
+
+describe(`Test readDirectory() with virtual files`, () => {
+
+	const languageModule = createFooLanguageModule((_, text) => ({ text, capabilities: {}, mappings: [] }));
+	const sourceFiles = [
+		'/project/src/a.foo',
+		'/project/src/components/b.foo',
+		'/project/src/components/nested/c.foo',
+		'/project/node_modules/lib/d.foo',
+		'/project/src/e.bar',
+	];
+	const tsFiles = [
+		'/project/src/a.ts',
+		'/project/src/components/b.ts',
+	];
+	const host = createTestHost(new Map(sourceFiles.map(fileName => [fileName, ''])), {
+		readDirectory: (rootDir, extensions, excludes, includes, depth) => (ts as any).matchFiles(
+			rootDir,
+			extensions,
+			excludes,
+			includes,
+			true,
+			'/',
+			depth,
+			(dir: string) => {
+				dir = dir.replace(/(.)\/$/, '$1');
+				return {
+					files: tsFiles.filter(file => file.substring(0, file.lastIndexOf('/')) === dir).map(file => file.substring(dir.length + 1)),
+					directories: dir === '/project/src' ? ['components'] : dir === '/project' ? ['src'] : dir === '/' ? ['project'] : [],
+				};
+			},
+			(fileName: string) => fileName,
+		),
+		useCaseSensitiveFileNames: () => true,
+	});
+	const context = createEmbeddedLanguageServiceHost(host, [languageModule]);
+	const readDirectory: ts.LanguageServiceHost['readDirectory'] = (...args) => context.typescriptLanguageServiceHost.readDirectory!(...args).sort();
+
+	// create virtual files
+	context.typescriptLanguageServiceHost.getScriptFileNames();
+
+	it(`include and exclude`, () => {
+		expect(readDirectory('/project', ['.ts', '.foo'], ['**/node_modules'], ['src/**/*'])).toEqual([
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+			'/project/src/components/b.foo',
+			'/project/src/components/b.ts',
+			'/project/src/components/nested/c.foo',
+		]);
+		expect(readDirectory('/project', ['.ts', '.foo'], ['src/components'], undefined)).toEqual([
+			'/project/node_modules/lib/d.foo',
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+		]);
+		expect(readDirectory('/project/src/', ['.ts', '.foo'], undefined, ['./*'])).toEqual([
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+		]);
+	});
+
+	it(`depth`, () => {
+		expect(readDirectory('/project/src', ['.ts', '.foo'], undefined, undefined, 1)).toEqual([
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+		]);
+		expect(readDirectory('/project/src', ['.ts', '.foo'], undefined, undefined, 2)).toEqual([
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+			'/project/src/components/b.foo',
+			'/project/src/components/b.ts',
+		]);
+	});
+
+	it(`extensions`, () => {
+		// source files are matched by their TypeScript host files
+		expect(readDirectory('/project/src', ['.ts'], undefined, ['./*'])).toEqual([
+			'/project/src/a.foo',
+			'/project/src/a.ts',
+		]);
+		expect(readDirectory('/project/src', ['.json'], undefined, ['./*'])).toEqual([]);
+	});
+});
@@ -0,0 +1,69 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createVirtualFilesHost } from '../out';
+import { createFooLanguageModule } from './utils/fooLanguage';
+
+describe(`Test source maps of virtual files`, () => {
+
+	// maps each character, only `a` can be hovered
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text,
+		capabilities: {},
+		mappings: [...text].map((char, i) => ({ sourceRange: [i, i + 1], generatedRange: [i, i + 1], data: { hover: char === 'a' } })),
+	}));
+
+	function getSourceMap(host: ReturnType<typeof createVirtualFilesHost>) {
+		return host.getSourceMap(host.getSourceByVirtualFileName('/a.foo.ts')![2]);
+	}
+
+	it(`keep source maps of previous snapshots unchanged`, () => {
+
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('abc'));
+		const map = getSourceMap(host);
+
+		expect(map.toSourceOffset(2)?.[0]).toBe(2);
+
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('abXc'));
+
+		expect(getSourceMap(host)).not.toBe(map);
+		expect(map.mappings.map(mapping => mapping.generatedRange[0])).toEqual([0, 1, 2]);
+		expect(map.toSourceOffset(2)?.[1].data.hover).toBe(false);
+		expect(getSourceMap(host).toSourceOffset(3)?.[0]).toBe(3);
+	});
+
+	it(`update the index of large files instead of rebuilding it`, () => {
+
+		const text = 'ab'.repeat(5000);
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/a.foo', ts.ScriptSnapshot.fromString(text));
+		const map = getSourceMap(host);
+
+		// build the index before updating
+		map.toSourceOffset(0);
+		const index = map['_index'];
+
+		const newText = text.substring(0, 5000) + 'X' + text.substring(5000);
+		host.update('/a.foo', ts.ScriptSnapshot.fromString(newText));
+		const newMap = getSourceMap(host);
+
+		expect(newMap['_index']).toBe(index);
+		for (const offset of [0, 4999, 5000, 5001, 7777, 10000]) {
+			const mapped = [...newMap.toSourceOffsets(offset)].find(mapped => mapped[1].generatedRange[0] === offset);
+			expect(mapped?.[0]).toBe(offset);
+			expect(mapped?.[1].data.hover).toBe(newText[offset] === 'a');
+		}
+	});
+
+	it(`rebuild source maps if most mappings are changed`, () => {
+
+		const host = createVirtualFilesHost([languageModule]);
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('a'.repeat(200)));
+		getSourceMap(host).toSourceOffset(0);
+
+		host.update('/a.foo', ts.ScriptSnapshot.fromString('b'.repeat(200)));
+
+		expect(getSourceMap(host)['_index']).toBeUndefined();
+		expect(getSourceMap(host).mappings.every(mapping => !mapping.data.hover)).toBe(true);
+	});
+});
@@ -0,0 +1,74 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { EmbeddedFileKind, LanguageModule, LanguageServiceHost, PositionCapabilities, VirtualFile } from '../../out';
+
+/**
+ * Language module of `.foo` source files, each of them has a `.foo.ts` virtual file returned by `createTsFile()`.
+ */
+export function createFooLanguageModule(
+	createTsFile: (fileName: string, text: string) => Pick<VirtualFile, 'text' | 'capabilities' | 'mappings'> & Partial<VirtualFile>,
+	languageModule?: Partial<LanguageModule>,
+): LanguageModule {
+	return {
+		createSourceFile,
+		updateSourceFile(virtualFile, snapshot) {
+			const newVirtualFile = createSourceFile(virtualFile.fileName, snapshot)!;
+			virtualFile.text = newVirtualFile.text;
+			virtualFile.embeddeds = newVirtualFile.embeddeds;
+		},
+		...languageModule,
+	};
+
+	function createSourceFile(fileName: string, snapshot: ts.IScriptSnapshot): VirtualFile | undefined {
+		if (!fileName.endsWith('.foo'))
+			return;
+		const text = snapshot.getText(0, snapshot.getLength());
+		return {
+			fileName,
+			text,
+			kind: EmbeddedFileKind.TextFile,
+			capabilities: {},
+			mappings: [],
+			embeddeds: [{
+				fileName: fileName + '.ts',
+				kind: EmbeddedFileKind.TypeScriptHostFile,
+				embeddeds: [],
+				...createTsFile(fileName, text),
+			}],
+		};
+	}
+}
+
+/**
+ * Maps the whole source text to the generated text after `prefix`.
+ */
+export function mapSourceText(text: string, prefix: string, data: PositionCapabilities): VirtualFile['mappings'][number] {
+	return {
+		sourceRange: [0, text.length],
+		generatedRange: [prefix.length, prefix.length + text.length],
+		data,
+	};
+}
+
+/**
+ * In-memory host of `files` with the current directory `/`.
+ */
+export function createTestHost(files: Map<string, string>, host?: Partial<LanguageServiceHost>): LanguageServiceHost {
+	return {
+		getTypeScriptModule: () => ts,
+		getProjectVersion: () => '0',
+		getScriptFileNames: () => [...files.keys()],
+		getScriptVersion: () => '0',
+		getScriptSnapshot: fileName => {
+			const text = files.get(fileName);
+			if (text !== undefined) {
+				return ts.ScriptSnapshot.fromString(text);
+			}
+		},
+		fileExists: fileName => files.has(fileName),
+		readFile: fileName => files.get(fileName),
+		getCompilationSettings: () => ({ noLib: true }),
+		getCurrentDirectory: () => '/',
+		getDefaultLibFileName: () => '/lib.d.ts',
+		...host,
+	};
+}
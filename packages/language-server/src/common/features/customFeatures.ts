@@ -3,6 +3,8 @@ import * as vscode from 'vscode-languageserver';
 import type { Workspaces } from '../workspaces';
 import { GetMatchTsConfigRequest, ReloadProjectNotification, WriteVirtualFilesNotification, GetVirtualFileNamesRequest, GetVirtualFileRequest, ReportStats } from '../../protocol';
 import { forEachEmbeddeds } from '@volar/language-core';
+import { toSourceMapV3 } from '@volar/source-map';
+import { posix as path } from 'path';
 
 export function register(
 	connection: vscode.Connection,
@@ -113,7 +115,25 @@ export function register(
 					if (virtualFile.startsWith(ls.context.host.getCurrentDirectory()) && !sourceFiles.has(virtualFile)) {
 						const snapshot = ls.context.core.typescriptLanguageServiceHost.getScriptSnapshot(virtualFile);
 						if (snapshot) {
-							fs.writeFile(virtualFile, snapshot.getText(0, snapshot.getLength()), () => { });
+							const text = snapshot.getText(0, snapshot.getLength());
+							const source = ls.context.core.mapper.getSourceByVirtualFileName(virtualFile);
+							if (source) {
+								const sourceMap = toSourceMapV3(
+									source[2].mappings,
+									text,
+									source[0],
+									fileName => {
+										const sourceSnapshot = fileName === source[0] ? source[1] : ls.context.host.getScriptSnapshot(fileName);
+										return sourceSnapshot?.getText(0, sourceSnapshot.getLength());
+									},
+									{ file: path.basename(virtualFile), includeSourcesContent: true },
+								);
+								fs.writeFile(virtualFile + '.map', JSON.stringify(sourceMap), () => { });
+								fs.writeFile(virtualFile, text + `\n//# sourceMappingURL=${path.basename(virtualFile)}.map`, () => { });
+							}
+							else {
+								fs.writeFile(virtualFile, text, () => { });
+							}
 						}
 					}
 				}
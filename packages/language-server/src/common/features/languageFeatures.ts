@@ -16,8 +16,10 @@ export function register(
 	let lastCompleteUri: string;
 	let lastCompleteLs: embedded.LanguageService;
 	let lastCodeLensLs: embedded.LanguageService;
+	let lastInlayHintLs: embedded.LanguageService;
 	let lastCodeActionLs: embedded.LanguageService;
 	let lastCallHierarchyLs: embedded.LanguageService;
+	let lastTypeHierarchyLs: embedded.LanguageService;
 
 	connection.onCompletion(async (params) => {
 		return worker(params.textDocument.uri, async vueLs => {
@@ -180,6 +182,18 @@ export function register(
 	connection.languages.callHierarchy.onOutgoingCalls(async (params) => {
 		return await lastCallHierarchyLs?.callHierarchy.getOutgoingCalls(params.item) ?? [];
 	});
+	connection.languages.typeHierarchy.onPrepare(async (params) => {
+		return await worker(params.textDocument.uri, async vueLs => {
+			lastTypeHierarchyLs = vueLs;
+			return vueLs.typeHierarchy.doPrepare(params.textDocument.uri, params.position);
+		}) ?? [];
+	});
+	connection.languages.typeHierarchy.onSupertypes(async (params) => {
+		return await lastTypeHierarchyLs?.typeHierarchy.getSupertypes(params.item) ?? [];
+	});
+	connection.languages.typeHierarchy.onSubtypes(async (params) => {
+		return await lastTypeHierarchyLs?.typeHierarchy.getSubtypes(params.item) ?? [];
+	});
 	connection.languages.semanticTokens.on(async (params, token, _, resultProgress) => {
 		await shared.sleep(200);
 		if (token.isCancellationRequested) return buildTokens([]);
@@ -232,12 +246,28 @@ export function register(
 			items: result ?? [],
 		};
 	});
+	connection.languages.diagnostics.onWorkspace(async (params, token, _workDoneProgressReporter, resultProgressReporter) => {
+		token = cancelHost.createCancellationToken(token);
+		const items: vscode.WorkspaceDocumentDiagnosticReport[] = [];
+		await projects.pullWorkspaceDiagnostics(params.previousResultIds, token, reports => {
+			if (resultProgressReporter) {
+				resultProgressReporter.report({ items: reports });
+			}
+			else {
+				items.push(...reports);
+			}
+		});
+		return { items };
+	});
 	connection.languages.inlayHint.on(async params => {
 		return worker(params.textDocument.uri, async vueLs => {
+			lastInlayHintLs = vueLs;
 			return vueLs.getInlayHints(params.textDocument.uri, params.range);
 		});
 	});
-	// TODO: connection.languages.inlayHint.resolve
+	connection.languages.inlayHint.resolve(async inlayHint => {
+		return await lastInlayHintLs?.doInlayHintResolve(inlayHint) ?? inlayHint;
+	});
 	connection.workspace.onWillRenameFiles(async params => {
 
 		const config = await connection.workspace.getConfiguration('volar.updateImportsOnFileMove.enabled');
@@ -26,7 +26,7 @@ export async function createProject(params: ProjectParams) {
 	const { tsConfig, documentRegistry, rootUri } = params;
 	const { ts, fileSystemHost, documents, cancelTokenHost, tsLocalized, initOptions, configurationHost } = params.workspace.workspaces;
 	const { plugins } = params.workspace.workspaces;
-	const { runtimeEnv } = params.workspace.workspaces.server;
+	const { runtimeEnv, connection } = params.workspace.workspaces.server;
 	const sys = fileSystemHost.getWorkspaceFileSystem(rootUri);
 
 	let typeRootVersion = 0;
@@ -58,6 +58,7 @@ export async function createProject(params: ProjectParams) {
 		getLanguageService,
 		getLanguageServiceDontCreate: () => vueLs,
 		getParsedCommandLine: () => parsedCommandLine,
+		getDiagnosticsVersion,
 		tryAddFile: (fileName: string) => {
 			if (!parsedCommandLine.fileNames.includes(fileName)) {
 				parsedCommandLine.fileNames.push(fileName);
@@ -71,7 +72,10 @@ export async function createProject(params: ProjectParams) {
 		if (!vueLs) {
 
 			const languageModules = plugins.map(plugin => plugin.semanticService?.getLanguageModules?.(languageServiceHost) ?? []).flat();
-			const languageContext = embedded.createEmbeddedLanguageServiceHost(languageServiceHost, languageModules);
+			const languageContext = embedded.createEmbeddedLanguageServiceHost(languageServiceHost, languageModules, {
+				validateMappings: initOptions.validateMappings,
+				logger: connection.console,
+			});
 			const languageServiceContext = embeddedLS.createLanguageServiceContext({
 				host: languageServiceHost,
 				context: languageContext,
@@ -84,6 +88,7 @@ export async function createProject(params: ProjectParams) {
 				env: {
 					rootUri,
 					configurationHost: configurationHost,
+					logger: connection.console,
 					fileSystemProvider: runtimeEnv.fileSystemProvide,
 					documentContext: getHTMLDocumentContext(ts, languageServiceHost),
 					schemaRequestService: async uri => {
@@ -101,6 +106,37 @@ export async function createProject(params: ProjectParams) {
 		}
 		return vueLs;
 	}
+	/**
+	 * Versions of the file and the files that it depends on, changes whenever the diagnostics of the file may change.
+	 */
+	function getDiagnosticsVersion(uri: string) {
+
+		const { core, typescriptLanguageService } = getLanguageService().context;
+		const program = typescriptLanguageService.getProgram();
+		if (!program)
+			return;
+
+		const fileName = shared.getPathOfUri(uri);
+		const source = core.mapper.get(fileName);
+		const tsFileNames: string[] = [];
+
+		if (source) {
+			embedded.forEachEmbeddeds(source[1], file => {
+				if (file.kind === embedded.EmbeddedFileKind.TypeScriptHostFile) {
+					tsFileNames.push(file.fileName);
+				}
+			});
+		}
+		else {
+			tsFileNames.push(fileName);
+		}
+
+		const versions = [...getDependencies(ts, program, tsFileNames)]
+			.sort()
+			.map(dependency => dependency + ':' + core.typescriptLanguageServiceHost.getScriptVersion(dependency));
+
+		return [languageServiceHost.getScriptVersion(fileName), ...versions].join('\n');
+	}
 	async function onWorkspaceFilesChanged(changes: vscode.FileEvent[]) {
 
 		for (const change of changes) {
@@ -285,6 +321,67 @@ function createParsedCommandLine(
 	}
 }
 
+/**
+ * Files that `fileNames` import or reference, including the indirect ones, and the files that declare globals.
+ */
+const globalFiles = new WeakMap<ts.Program, string[]>();
+
+function getDependencies(
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+	program: ts.Program,
+	fileNames: string[],
+) {
+
+	const dependencies = new Set(getGlobalFiles(ts, program));
+	const queue = [...fileNames];
+
+	let fileName: string | undefined;
+	while (fileName = queue.shift()) {
+
+		const sourceFile = program.getSourceFile(fileName);
+		if (!sourceFile)
+			continue;
+
+		dependencies.add(sourceFile.fileName);
+
+		const imports: string[] = [];
+		sourceFile.resolvedModules?.forEach(resolved => {
+			if (resolved) imports.push(resolved.resolvedFileName);
+		});
+		sourceFile.resolvedTypeReferenceDirectiveNames?.forEach(resolved => {
+			if (resolved?.resolvedFileName) imports.push(resolved.resolvedFileName);
+		});
+		for (const reference of sourceFile.referencedFiles) {
+			imports.push(ts.resolveTripleslashReference(reference.fileName, sourceFile.fileName));
+		}
+
+		for (const importFileName of imports) {
+			if (!dependencies.has(importFileName)) {
+				queue.push(importFileName);
+			}
+		}
+	}
+
+	return dependencies;
+}
+
+/**
+ * Scripts and module augmentations affect every file of the program, a new program is created for each project version.
+ */
+function getGlobalFiles(
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+	program: ts.Program,
+) {
+	let fileNames = globalFiles.get(program);
+	if (!fileNames) {
+		fileNames = program.getSourceFiles()
+			.filter(sourceFile => !ts.isExternalModule(sourceFile) || sourceFile.moduleAugmentations?.length)
+			.map(sourceFile => sourceFile.fileName);
+		globalFiles.set(program, fileNames);
+	}
+	return fileNames;
+}
+
 function getHTMLDocumentContext(
 	ts: typeof import('typescript/lib/tsserverlibrary'),
 	host: ts.LanguageServiceHost,
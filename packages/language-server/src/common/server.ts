@@ -132,6 +132,7 @@ export function createCommonLanguageServer(params: ServerParams) {
 			ts,
 			configurationHost,
 			options,
+			connection.console,
 		);
 
 		for (const root of roots) {
@@ -1,4 +1,5 @@
 import * as embedded from '@volar/language-service';
+import * as vscode from 'vscode-languageserver';
 import { URI } from 'vscode-uri';
 import { LanguageServerInitializationOptions, LanguageServerPlugin, RuntimeEnvironment } from '../types';
 import { loadCustomPlugins } from './utils/serverConfig';
@@ -12,6 +13,7 @@ export function createSyntaxServicesHost(
 	ts: typeof import('typescript/lib/tsserverlibrary'),
 	configHost: embedded.ConfigurationHost | undefined,
 	initOptions: LanguageServerInitializationOptions,
+	logger: vscode.RemoteConsole,
 ) {
 
 	const services = new Map<string, embedded.DocumentService>();
@@ -45,6 +47,7 @@ export function createSyntaxServicesHost(
 			rootUri,
 			configurationHost: configHost,
 			fileSystemProvider: runtimeEnv.fileSystemProvide,
+			logger,
 		};
 		const serviceContext = embedded.createDocumentServiceContext({
 			ts,
@@ -58,6 +61,10 @@ export function createSyntaxServicesHost(
 					...plugins.map(plugin => plugin.syntacticService?.getServicePlugins?.(serviceContext) ?? []).flat(),
 				];
 			},
+			virtualFilesHostOptions: {
+				validateMappings: initOptions.validateMappings,
+				logger,
+			},
 		});
 		return embedded.createDocumentService(serviceContext);
 	}
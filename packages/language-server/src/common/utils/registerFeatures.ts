@@ -100,6 +100,9 @@ export function setupSemanticCapabilities(
 	if (!initOptions.respectClientCapabilities || params.textDocument?.callHierarchy) {
 		server.callHierarchyProvider = true;
 	}
+	if (!initOptions.respectClientCapabilities || params.textDocument?.typeHierarchy) {
+		server.typeHierarchyProvider = true;
+	}
 	if (!initOptions.respectClientCapabilities || params.textDocument?.hover) {
 		server.hoverProvider = true;
 	}
@@ -200,7 +203,9 @@ export function setupSemanticCapabilities(
 		};
 	}
 	if (!initOptions.respectClientCapabilities || params.textDocument?.inlayHint) {
-		server.inlayHintProvider = true;
+		server.inlayHintProvider = {
+			resolveProvider: true,
+		};
 	}
 	if (!initOptions.respectClientCapabilities || params.textDocument?.diagnostic && (initOptions.diagnosticModel ?? DiagnosticModel.Push) === DiagnosticModel.Pull) {
 		server.diagnosticProvider = {
@@ -209,7 +214,7 @@ export function setupSemanticCapabilities(
 				{ pattern: '**/*.{ts,js,tsx,jsx}' },
 			],
 			interFileDependencies: true,
-			workspaceDiagnostics: false,
+			workspaceDiagnostics: true,
 		};
 	}
 }
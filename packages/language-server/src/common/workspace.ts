@@ -58,6 +58,7 @@ export async function createWorkspace(params: WorkspaceParams) {
 		getProjectAndTsConfig,
 		getInferredProject,
 		getInferredProjectDontCreate: () => inferredProject,
+		getProjects,
 		reload: clearProjects,
 		dispose() {
 			clearProjects();
@@ -219,6 +220,23 @@ export async function createWorkspace(params: WorkspaceParams) {
 			return project.getParsedCommandLine();
 		}
 	}
+	/**
+	 * All tsconfig projects of the workspace, created on demand, and the inferred project if exists.
+	 */
+	async function getProjects() {
+
+		for (const rootTsConfig of rootTsConfigs) {
+			getProjectByCreate(rootTsConfig);
+		}
+
+		const result = await Promise.all([...projects.values()]);
+
+		if (inferredProject) {
+			result.push(await inferredProject);
+		}
+
+		return result;
+	}
 	function getProjectByCreate(_tsConfig: string) {
 		const tsConfig = shared.normalizeFileName(_tsConfig);
 		let project = projects.pathGet(tsConfig);
@@ -0,0 +1,128 @@
+import type { ConfigurationHost, LanguageService } from '@volar/language-service';
+import * as shared from '@volar/shared';
+import * as vscode from 'vscode-languageserver';
+import { createUriMap } from './utils/uriMap';
+
+export interface WorkspaceDiagnosticsProject {
+	getParsedCommandLine(): { fileNames: string[]; },
+	/**
+	 * Changes whenever the diagnostics of `uri` may change, `undefined` if it can't be computed.
+	 */
+	getDiagnosticsVersion(uri: string): string | undefined,
+	getLanguageService(): Pick<LanguageService, 'doValidation'>,
+}
+
+export function createWorkspaceDiagnostics(
+	getDocumentVersion: (uri: string) => number | null,
+	configurationHost: ConfigurationHost | undefined,
+) {
+
+	const results = createUriMap<{
+		resultId: string,
+		project: WorkspaceDiagnosticsProject,
+		diagnosticsVersion: string,
+	}>();
+
+	let lastResultId = 0;
+	let configurationVersion = 0;
+
+	// settings such as `volar.plugins` can change the diagnostics of every file
+	configurationHost?.onDidChangeConfiguration(() => {
+		configurationVersion++;
+	});
+
+	return {
+		pull,
+	};
+
+	/**
+	 * Validate the files of every project, a file that is included by multiple projects is validated by the first one.
+	 * Files are validated one by one with `delay` in between, and `report` is called for each of them.
+	 * A file is reported unchanged if the client has its last result and its diagnostics version is the same.
+	 */
+	async function pull(
+		projects: WorkspaceDiagnosticsProject[],
+		previousResultIds: vscode.PreviousResultId[],
+		delay: number,
+		token: vscode.CancellationToken,
+		report: (reports: vscode.WorkspaceDocumentDiagnosticReport[]) => void,
+	) {
+
+		const previousResults = createUriMap<string>();
+		const checked = createUriMap<boolean>();
+
+		for (const previousResult of previousResultIds) {
+			previousResults.uriSet(previousResult.uri, previousResult.value);
+		}
+
+		for (const project of projects) {
+			for (const fileName of project.getParsedCommandLine().fileNames) {
+
+				if (token.isCancellationRequested)
+					return;
+
+				const uri = shared.getUriByPath(fileName);
+				if (checked.uriHas(uri))
+					continue;
+				checked.uriSet(uri, true);
+
+				const lastResult = results.uriGet(uri);
+				const diagnosticsVersion = getDiagnosticsVersion(project, uri);
+				if (
+					lastResult
+					&& lastResult.resultId === previousResults.uriGet(uri)
+					&& lastResult.project === project
+					&& lastResult.diagnosticsVersion === diagnosticsVersion
+				) {
+					report([{
+						kind: vscode.DocumentDiagnosticReportKind.Unchanged,
+						uri,
+						version: getDocumentVersion(uri),
+						resultId: lastResult.resultId,
+					}]);
+					continue;
+				}
+
+				await shared.sleep(delay);
+
+				if (token.isCancellationRequested)
+					return;
+
+				const version = getDocumentVersion(uri);
+				let items: vscode.Diagnostic[];
+				try {
+					items = await project.getLanguageService().doValidation(uri, token);
+				}
+				catch {
+					continue; // handle for TS cancel throw
+				}
+
+				// diagnostics may be incomplete
+				if (token.isCancellationRequested)
+					return;
+
+				const resultId = String(++lastResultId);
+				if (diagnosticsVersion !== undefined) {
+					results.uriSet(uri, { resultId, project, diagnosticsVersion });
+				}
+				else {
+					results.uriDelete(uri);
+				}
+				report([{
+					kind: vscode.DocumentDiagnosticReportKind.Full,
+					uri,
+					version,
+					resultId,
+					items,
+				}]);
+			}
+		}
+	}
+
+	function getDiagnosticsVersion(project: WorkspaceDiagnosticsProject, uri: string) {
+		const version = project.getDiagnosticsVersion(uri);
+		if (version !== undefined) {
+			return configurationVersion + '\n' + version;
+		}
+	}
+}
@@ -7,7 +7,9 @@ import { DiagnosticModel, FileSystemHost, LanguageServerInitializationOptions, L
 import { CancellationTokenHost } from './cancellationPipe';
 import { createDocuments } from './documents';
 import { ServerParams } from './server';
+import { Project } from './project';
 import { createWorkspace, rootTsConfigNames, sortTsConfigs } from './workspace';
+import { createWorkspaceDiagnostics } from './workspaceDiagnostics';
 
 export interface WorkspacesParams {
 	server: ServerParams;
@@ -33,6 +35,7 @@ export function createWorkspaces(params: WorkspacesParams) {
 	let documentUpdatedReq = 0;
 
 	const workspaces = new Map<string, ReturnType<typeof createWorkspace>>();
+	const workspaceDiagnostics = createWorkspaceDiagnostics(uri => documents.data.uriGet(uri)?.version ?? null, configurationHost);
 
 	documents.onDidChangeContent(params => {
 		updateDiagnostics(params.textDocument.uri);
@@ -57,6 +60,7 @@ export function createWorkspaces(params: WorkspacesParams) {
 		workspaces,
 		getProject,
 		reloadProject,
+		pullWorkspaceDiagnostics,
 		add: (rootUri: URI) => {
 			if (!workspaces.has(rootUri.toString())) {
 				workspaces.set(rootUri.toString(), createWorkspace({
@@ -114,7 +118,7 @@ export function createWorkspaces(params: WorkspacesParams) {
 			return;
 
 		const req = ++documentUpdatedReq;
-		const delay = await configurationHost?.getConfiguration<number>('volar.diagnostics.delay') ?? 200;
+		const delay = await getDiagnosticsDelay();
 		const cancel = cancelTokenHost.createCancellationToken({
 			get isCancellationRequested() {
 				return req !== documentUpdatedReq;
@@ -168,6 +172,23 @@ export function createWorkspaces(params: WorkspacesParams) {
 			}
 		}
 	}
+	async function pullWorkspaceDiagnostics(
+		previousResultIds: vscode.PreviousResultId[],
+		token: vscode.CancellationToken,
+		report: (reports: vscode.WorkspaceDocumentDiagnosticReport[]) => void,
+	) {
+
+		const projects: Awaited<Project>[] = [];
+
+		for (const [_, workspace] of workspaces) {
+			projects.push(...await (await workspace).getProjects());
+		}
+
+		await workspaceDiagnostics.pull(projects, previousResultIds, await getDiagnosticsDelay(), token, report);
+	}
+	async function getDiagnosticsDelay() {
+		return await configurationHost?.getConfiguration<number>('volar.diagnostics.delay') ?? 200;
+	}
 	async function getProject(uri: string) {
 
 		const rootUris = [...workspaces.keys()]
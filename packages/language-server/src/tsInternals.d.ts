@@ -0,0 +1,19 @@
+import 'typescript/lib/tsserverlibrary';
+
+declare module 'typescript/lib/tsserverlibrary' {
+
+	interface SourceFile {
+		/**
+		 * @internal
+		 */
+		resolvedModules?: ModeAwareCache<ResolvedModuleFull | undefined>;
+		/**
+		 * @internal
+		 */
+		resolvedTypeReferenceDirectiveNames?: ModeAwareCache<ResolvedTypeReferenceDirective | undefined>;
+		/**
+		 * @internal
+		 */
+		moduleAugmentations?: readonly (StringLiteral | Identifier)[];
+	}
+}
@@ -117,4 +117,8 @@ export interface LanguageServerInitializationOptions {
 	respectClientCapabilities?: boolean;
 	maxFileSize?: number;
 	configFilePath?: string;
+	/**
+	 * Log mapping problems of virtual files, for language module authors.
+	 */
+	validateMappings?: boolean;
 }
@@ -0,0 +1,105 @@
+import type { ConfigurationHost } from '@volar/language-service';
+import { describe, expect, it } from 'vitest';
+import * as vscode from 'vscode-languageserver';
+import { createWorkspaceDiagnostics, WorkspaceDiagnosticsProject } from '../out/common/workspaceDiagnostics';
+
+describe(`Test workspace diagnostics`, () => {
+
+	function createProject(versions: Record<string, string>, onValidation: (uri: string) => void = () => { }): WorkspaceDiagnosticsProject {
+		return {
+			getParsedCommandLine: () => ({ fileNames: Object.keys(versions) }),
+			getDiagnosticsVersion: uri => versions[uri.substring('file://'.length)],
+			getLanguageService: () => ({
+				async doValidation(uri) {
+					onValidation(uri);
+					return [{ message: uri, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } } }];
+				},
+			}),
+		};
+	}
+
+	it(`report each file after it is validated`, async () => {
+
+		const logs: string[] = [];
+		const project = createProject({ '/a.ts': '0', '/b.ts': '0' }, uri => logs.push('validate ' + uri));
+
+		await createWorkspaceDiagnostics(() => null, undefined).pull([project], [], 0, vscode.CancellationToken.None, reports => {
+			logs.push(...reports.map(report => 'report ' + report.uri));
+		});
+
+		expect(logs).toEqual([
+			'validate file:///a.ts',
+			'report file:///a.ts',
+			'validate file:///b.ts',
+			'report file:///b.ts',
+		]);
+	});
+
+	it(`report unchanged files of previous result ids`, async () => {
+
+		const versions = { '/a.ts': '0', '/b.ts': '0' };
+		const validated: string[] = [];
+		const project = createProject(versions, uri => validated.push(uri));
+		const workspaceDiagnostics = createWorkspaceDiagnostics(() => null, undefined);
+		const reports: vscode.WorkspaceDocumentDiagnosticReport[] = [];
+
+		await workspaceDiagnostics.pull([project], [], 0, vscode.CancellationToken.None, _reports => reports.push(..._reports));
+
+		const previousResultIds = reports.map(report => ({ uri: report.uri, value: report.resultId! }));
+		versions['/b.ts'] = '1';
+		validated.length = 0;
+		reports.length = 0;
+
+		await workspaceDiagnostics.pull([project], previousResultIds, 0, vscode.CancellationToken.None, _reports => reports.push(..._reports));
+
+		expect(validated).toEqual(['file:///b.ts']);
+		expect(reports.map(report => [report.uri, report.kind])).toEqual([
+			['file:///a.ts', vscode.DocumentDiagnosticReportKind.Unchanged],
+			['file:///b.ts', vscode.DocumentDiagnosticReportKind.Full],
+		]);
+		expect(reports[0].resultId).toBe(previousResultIds[0].value);
+	});
+
+	it(`validate all files again after configuration changed`, async () => {
+
+		const callbacks: (() => void)[] = [];
+		const configurationHost: ConfigurationHost = {
+			async getConfiguration() {
+				return undefined;
+			},
+			onDidChangeConfiguration(cb) {
+				callbacks.push(cb);
+			},
+		};
+		const validated: string[] = [];
+		const project = createProject({ '/a.ts': '0', '/b.ts': '0' }, uri => validated.push(uri));
+		const workspaceDiagnostics = createWorkspaceDiagnostics(() => null, configurationHost);
+		const reports: vscode.WorkspaceDocumentDiagnosticReport[] = [];
+
+		await workspaceDiagnostics.pull([project], [], 0, vscode.CancellationToken.None, _reports => reports.push(..._reports));
+
+		const previousResultIds = reports.map(report => ({ uri: report.uri, value: report.resultId! }));
+		validated.length = 0;
+		callbacks.forEach(cb => cb());
+
+		await workspaceDiagnostics.pull([project], previousResultIds, 0, vscode.CancellationToken.None, () => { });
+
+		expect(validated).toEqual(['file:///a.ts', 'file:///b.ts']);
+	});
+
+	it(`stop validating files after cancellation`, async () => {
+
+		const tokenSource = new vscode.CancellationTokenSource();
+		const validated: string[] = [];
+		const reported: string[] = [];
+		const project = createProject({ '/a.ts': '0', '/b.ts': '0', '/c.ts': '0' }, uri => validated.push(uri));
+
+		await createWorkspaceDiagnostics(() => null, undefined).pull([project], [], 0, tokenSource.token, reports => {
+			reported.push(...reports.map(report => report.uri));
+			tokenSource.cancel();
+		});
+
+		expect(validated).toEqual(['file:///a.ts']);
+		expect(reported).toEqual(['file:///a.ts']);
+	});
+});
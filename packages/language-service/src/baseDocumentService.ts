@@ -1,4 +1,4 @@
-import { createVirtualFilesHost, LanguageModule } from '@volar/language-core';
+import { createVirtualFilesHost, LanguageModule, VirtualFilesHostOptions } from '@volar/language-core';
 import * as shared from '@volar/shared';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import * as autoInsert from './documentFeatures/autoInsert';
@@ -23,6 +23,7 @@ export function createDocumentServiceContext(options: {
 	getLanguageModules(): LanguageModule[],
 	getPlugins(): LanguageServicePlugin[],
 	env: LanguageServicePluginContext['env'];
+	virtualFilesHostOptions?: VirtualFilesHostOptions;
 }) {
 
 	let plugins: LanguageServicePlugin[];
@@ -38,7 +39,7 @@ export function createDocumentServiceContext(options: {
 	};
 	const languageModules = options.getLanguageModules();
 	const lastUpdateVersions = new Map<string, number>();
-	const virtualFiles = createVirtualFilesHost(languageModules);
+	const virtualFiles = createVirtualFilesHost(languageModules, options.virtualFilesHostOptions);
 	const textDocumentMapper = parseSourceFileDocuments(virtualFiles);
 	const context: DocumentServiceRuntimeContext = {
 		typescript: ts,
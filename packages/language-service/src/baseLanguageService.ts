@@ -19,11 +19,13 @@ import * as executeCommand from './languageFeatures/executeCommand';
 import * as fileReferences from './languageFeatures/fileReferences';
 import * as fileRename from './languageFeatures/fileRename';
 import * as hover from './languageFeatures/hover';
+import * as inlayHintResolve from './languageFeatures/inlayHintResolve';
 import * as inlayHints from './languageFeatures/inlayHints';
 import * as references from './languageFeatures/references';
 import * as rename from './languageFeatures/rename';
 import * as renamePrepare from './languageFeatures/renamePrepare';
 import * as signatureHelp from './languageFeatures/signatureHelp';
+import * as typeHierarchy from './languageFeatures/typeHierarchy';
 import * as diagnostics from './languageFeatures/validation';
 import * as workspaceSymbol from './languageFeatures/workspaceSymbols';
 import { LanguageServicePlugin, LanguageServicePluginContext, LanguageServiceRuntimeContext } from './types';
@@ -46,7 +48,10 @@ export function createLanguageServiceContext(options: {
 	const tsLs = ts.createLanguageService(options.context.typescriptLanguageServiceHost, options.documentRegistry);
 	tsFaster.decorate(ts, options.context.typescriptLanguageServiceHost, tsLs);
 
-	let plugins: LanguageServicePlugin[];
+	let pluginRegistry: {
+		plugins: LanguageServicePlugin[],
+		pluginsById: Map<string, LanguageServicePlugin>,
+	} | undefined;
 
 	const pluginContext: LanguageServicePluginContext = {
 		env: options.env,
@@ -63,15 +68,10 @@ export function createLanguageServiceContext(options: {
 		host: options.host,
 		core: options.context,
 		get plugins() {
-			if (!plugins) {
-				plugins = options.getPlugins();
-				for (const plugin of plugins) {
-					plugin.setup?.(pluginContext);
-				}
-			}
-			return plugins;
+			return loadPlugins().plugins;
 		},
 		pluginContext,
+		getPluginById: pluginId => loadPlugins().pluginsById.get(pluginId),
 		typescriptLanguageService: tsLs,
 		documents: textDocumentMapper,
 		getTextDocument,
@@ -79,6 +79,34 @@ export function createLanguageServiceContext(options: {
 
 	return context;
 
+	function loadPlugins() {
+		if (!pluginRegistry) {
+			const plugins = options.getPlugins();
+			const pluginsById = new Map<string, LanguageServicePlugin>();
+			const duplicateIds = new Set<string>();
+			const logger = options.env.logger ?? console;
+			for (const plugin of plugins) {
+				// plugins from volar.config.js may not declare an id
+				if (typeof plugin.id !== 'string') {
+					logger.warn(`Language service plugin has no id, its completion items, code actions and commands can't be resolved.`);
+				}
+				else if (pluginsById.has(plugin.id) || duplicateIds.has(plugin.id)) {
+					logger.warn(`Language service plugin id '${plugin.id}' is duplicated, completion items, code actions and commands of these plugins can't be resolved.`);
+					pluginsById.delete(plugin.id);
+					duplicateIds.add(plugin.id);
+				}
+				else {
+					pluginsById.set(plugin.id, plugin);
+				}
+			}
+			pluginRegistry = { plugins, pluginsById };
+			for (const plugin of plugins) {
+				plugin.setup?.(pluginContext);
+			}
+		}
+		return pluginRegistry;
+	}
+
 	function getTextDocument(uri: string) {
 
 		const fileName = shared.getPathOfUri(uri);
@@ -135,7 +163,9 @@ export function createLanguageService(context: LanguageServiceRuntimeContext) {
 		doAutoInsert: autoInsert.register(context),
 		doExecuteCommand: executeCommand.register(context),
 		getInlayHints: inlayHints.register(context),
+		doInlayHintResolve: inlayHintResolve.register(context),
 		callHierarchy: callHierarchy.register(context),
+		typeHierarchy: typeHierarchy.register(context),
 		dispose: () => context.typescriptLanguageService.dispose(),
 		context,
 	};
@@ -10,6 +10,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 		return documentArgFeatureWorker(
 			context,
+			'getColorPresentations',
 			document,
 			range,
 			map => !!map.file.capabilities.documentSymbol, // TODO: add color capabilitie setting
@@ -10,6 +10,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 		return documentFeatureWorker(
 			context,
+			'findDocumentColors',
 			document,
 			map => !!map.file.capabilities.documentSymbol, // TODO: add color capabilitie setting
 			(plugin, document) => plugin.findDocumentColors?.(document),
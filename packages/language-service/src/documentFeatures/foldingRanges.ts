@@ -10,6 +10,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 		return documentFeatureWorker(
 			context,
+			'getFoldingRanges',
 			document,
 			map => !!map.file.capabilities.foldingRange,
 			(plugin, document) => plugin.getFoldingRanges?.(document),
@@ -3,6 +3,7 @@ import * as vscode from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { EmbeddedDocumentSourceMap, SourceFileDocument } from '../documents';
 import type { DocumentServiceRuntimeContext } from '../types';
+import { getPlugins } from '../utils/featureWorkers';
 
 export function register(context: DocumentServiceRuntimeContext) {
 
@@ -25,8 +26,8 @@ export function register(context: DocumentServiceRuntimeContext) {
 		const vueDocument = context.getVirtualDocuments(document);
 		const originalDocument = document;
 		const rootEdits = onTypeParams
-			? await tryFormat(document, onTypeParams.position, undefined, onTypeParams.ch)
-			: await tryFormat(document, range, undefined);
+			? await tryFormat(document, undefined, onTypeParams.position, undefined, onTypeParams.ch)
+			: await tryFormat(document, undefined, range, undefined);
 
 		if (!vueDocument)
 			return rootEdits;
@@ -75,6 +76,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 					if (embeddedPosition) {
 						_edits = await tryFormat(
 							map.mappedDocument,
+							map,
 							embeddedPosition,
 							initialIndentBracket,
 							onTypeParams.ch,
@@ -108,6 +110,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 						_edits = await tryFormat(
 							map.mappedDocument,
+							map,
 							genRange,
 							initialIndentBracket,
 						);
@@ -187,7 +190,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 			}
 		}
 
-		async function tryFormat(document: TextDocument, range: vscode.Range | vscode.Position, initialIndentBracket: [string, string] | undefined, ch?: string) {
+		async function tryFormat(document: TextDocument, map: EmbeddedDocumentSourceMap | undefined, range: vscode.Range | vscode.Position, initialIndentBracket: [string, string] | undefined, ch?: string) {
 
 			let formatDocument = document;
 			let formatRange = range;
@@ -224,7 +227,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 			context.prepareLanguageServices(formatDocument);
 
-			for (const plugin of context.plugins) {
+			for (const plugin of await getPlugins(context, ch === undefined ? 'format' : 'formatOnType', document, map)) {
 
 				let edits: vscode.TextEdit[] | null | undefined;
 
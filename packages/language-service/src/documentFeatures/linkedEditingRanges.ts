@@ -10,6 +10,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 		return documentArgFeatureWorker(
 			context,
+			'findLinkedEditingRanges',
 			document,
 			position,
 			() => true,
@@ -11,6 +11,7 @@ export function register(context: DocumentServiceRuntimeContext) {
 
 		return documentArgFeatureWorker(
 			context,
+			'getSelectionRanges',
 			document,
 			positions,
 			map => !!map.file.capabilities.documentFormatting,
@@ -1,6 +1,6 @@
 import { DocumentRegistry, VirtualFile, forEachEmbeddeds, PositionCapabilities, TeleportMappingData } from '@volar/language-core';
 import * as shared from '@volar/shared';
-import { Mapping, SourceMapBase } from '@volar/source-map';
+import { Mapping, OverlapPolicy, SourceMapBase } from '@volar/source-map';
 import ts = require('typescript');
 import * as vscode from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -8,6 +8,12 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 export type SourceFileDocuments = ReturnType<typeof parseSourceFileDocuments>;
 export type SourceFileDocument = NonNullable<ReturnType<ReturnType<typeof parseSourceFileDocuments>['get']>>;
 
+type OffsetRangeArgs<Data> = [start: number, end: number, filter?: (data: Data) => boolean, policy?: OverlapPolicy];
+type RangeArgs<Data> = [range: vscode.Range, filter?: (data: Data) => boolean, policy?: OverlapPolicy] | OffsetRangeArgs<Data>;
+
+/**
+ * Range APIs accept a `vscode.Range` of the documents, or `start` and `end` offsets like `SourceMapBase`.
+ */
 export class SourceMap<Data = undefined> extends SourceMapBase<Data> {
 
 	constructor(
@@ -20,50 +26,59 @@ export class SourceMap<Data = undefined> extends SourceMapBase<Data> {
 
 	// Range APIs
 
-	public toSourceRange(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.toSourceRanges(range, filter)) {
+	public toSourceRange(range: vscode.Range, filter?: (data: Data) => boolean, policy?: OverlapPolicy): vscode.Range | undefined;
+	public toSourceRange(start: number, end: number, filter?: (data: Data) => boolean, policy?: OverlapPolicy): ReturnType<SourceMapBase<Data>['toSourceRange']>;
+	public toSourceRange(...args: RangeArgs<Data>) {
+		for (const result of this.toSourceRangesWorker(args)) {
 			return result;
 		}
 	}
 
-	public toGeneratedRange(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.toGeneratedRanges(range, filter)) {
+	public toGeneratedRange(range: vscode.Range, filter?: (data: Data) => boolean, policy?: OverlapPolicy): vscode.Range | undefined;
+	public toGeneratedRange(start: number, end: number, filter?: (data: Data) => boolean, policy?: OverlapPolicy): ReturnType<SourceMapBase<Data>['toGeneratedRange']>;
+	public toGeneratedRange(...args: RangeArgs<Data>) {
+		for (const result of this.toGeneratedRangesWorker(args)) {
 			return result;
 		}
 	}
 
-	public * toSourceRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.toRanges(range, filter, 'toSourcePositionsBase', 'matchSourcePosition')) {
-			yield result;
-		}
+	public toSourceRanges(range: vscode.Range, filter?: (data: Data) => boolean, policy?: OverlapPolicy): Generator<vscode.Range>;
+	public toSourceRanges(start: number, end: number, filter?: (data: Data) => boolean, policy?: OverlapPolicy): ReturnType<SourceMapBase<Data>['toSourceRanges']>;
+	public toSourceRanges(...args: RangeArgs<Data>) {
+		return this.toSourceRangesWorker(args);
+	}
+
+	public toGeneratedRanges(range: vscode.Range, filter?: (data: Data) => boolean, policy?: OverlapPolicy): Generator<vscode.Range>;
+	public toGeneratedRanges(start: number, end: number, filter?: (data: Data) => boolean, policy?: OverlapPolicy): ReturnType<SourceMapBase<Data>['toGeneratedRanges']>;
+	public toGeneratedRanges(...args: RangeArgs<Data>) {
+		return this.toGeneratedRangesWorker(args);
 	}
 
-	public * toGeneratedRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.toRanges(range, filter, 'toGeneratedPositionsBase', 'matchGeneratedPosition')) {
-			yield result;
+	private * toSourceRangesWorker(args: RangeArgs<Data>) {
+		if (isOffsetRangeArgs(args)) {
+			yield* super.toSourceRanges(...args);
+			return;
+		}
+		const [range, filter, policy] = args;
+		for (const mapped of super.toSourceRanges(this.mappedDocument.offsetAt(range.start), this.mappedDocument.offsetAt(range.end), filter, policy)) {
+			yield vscode.Range.create(
+				this.sourceDocument.positionAt(mapped[0][0]),
+				this.sourceDocument.positionAt(mapped[0][1]),
+			);
 		}
 	}
 
-	protected * toRanges(
-		range: vscode.Range,
-		filter: (data: Data) => boolean,
-		api: 'toSourcePositionsBase' | 'toGeneratedPositionsBase',
-		api2: 'matchSourcePosition' | 'matchGeneratedPosition'
-	) {
-		const failedLookUps: (readonly [vscode.Position, Mapping<Data>])[] = [];
-		for (const mapped of this[api](range.start, filter, 'left')) {
-			const end = this[api2](range.end, mapped[1], 'right');
-			if (end) {
-				yield { start: mapped[0], end } as vscode.Range;
-			}
-			else {
-				failedLookUps.push(mapped);
-			}
+	private * toGeneratedRangesWorker(args: RangeArgs<Data>) {
+		if (isOffsetRangeArgs(args)) {
+			yield* super.toGeneratedRanges(...args);
+			return;
 		}
-		for (const failedLookUp of failedLookUps) {
-			for (const mapped of this[api](range.end, filter, 'right')) {
-				yield { start: failedLookUp[0], end: mapped[0] } as vscode.Range;
-			}
+		const [range, filter, policy] = args;
+		for (const mapped of super.toGeneratedRanges(this.sourceDocument.offsetAt(range.start), this.sourceDocument.offsetAt(range.end), filter, policy)) {
+			yield vscode.Range.create(
+				this.mappedDocument.positionAt(mapped[0][0]),
+				this.mappedDocument.positionAt(mapped[0][1]),
+			);
 		}
 	}
 
@@ -122,20 +137,6 @@ export class SourceMap<Data = undefined> extends SourceMapBase<Data> {
 			yield [toDoc.positionAt(offset), mapping] as const;
 		}
 	}
-
-	protected matchSourcePosition(position: vscode.Position, mapping: Mapping, baseOffset: 'left' | 'right') {
-		let offset = this.matchOffset(this.mappedDocument.offsetAt(position), mapping['generatedRange'], mapping['sourceRange'], baseOffset === 'right');
-		if (offset !== undefined) {
-			return this.sourceDocument.positionAt(offset);
-		}
-	}
-
-	protected matchGeneratedPosition(position: vscode.Position, mapping: Mapping, baseOffset: 'left' | 'right') {
-		let offset = this.matchOffset(this.sourceDocument.offsetAt(position), mapping['sourceRange'], mapping['generatedRange'], baseOffset === 'right');
-		if (offset !== undefined) {
-			return this.mappedDocument.positionAt(offset);
-		}
-	}
 }
 
 export class EmbeddedDocumentSourceMap extends SourceMap<PositionCapabilities> {
@@ -180,7 +181,12 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 		file: VirtualFile,
 		maps: Map<VirtualFile, EmbeddedDocumentSourceMap>,
 		teleports: Map<VirtualFile, TeleportSourceMap>,
+		/**
+		 * Maps from virtual files of other source files that have mappings to this document.
+		 */
+		externalMaps: Map<VirtualFile, EmbeddedDocumentSourceMap>,
 	}>();
+	const externalMaps = new WeakMap<TextDocument, WeakMap<SourceMapBase<PositionCapabilities>, EmbeddedDocumentSourceMap>>();
 
 	return {
 		get: (uri: string) => {
@@ -189,7 +195,9 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 			const virtualFile = mapper.get(fileName);
 
 			if (virtualFile) {
-				return getMaps(fileName, virtualFile[0], virtualFile[1]);
+				const result = getMaps(fileName, virtualFile[0], virtualFile[1]);
+				result.externalMaps = getExternalMaps(fileName, result.document);
+				return result;
 			}
 		},
 		getTeleport(virtualFileUri: string) {
@@ -198,26 +206,90 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 			if (source) {
 				const maps = getMaps(source[0], source[1], source[2]);
 				for (const [_, teleport] of maps.teleports) {
-					if (teleport.file.fileName.toLowerCase() === fileName.toLowerCase()) {
+					if (mapper.getCanonicalFileName(teleport.file.fileName) === mapper.getCanonicalFileName(fileName)) {
 						return teleport;
 					}
 				}
 			}
 		},
 		getMap(virtualFileUri: string) {
-			const fileName = shared.getPathOfUri(virtualFileUri);
-			const source = mapper.getSourceByVirtualFileName(fileName);
-			if (source) {
-				const maps = getMaps(source[0], source[1], source[2]);
-				for (const [_, map] of maps.maps) {
-					if (map.file.fileName.toLowerCase() === fileName.toLowerCase()) {
-						return map;
-					}
-				}
+			for (const map of getVirtualFileMaps(virtualFileUri)) {
+				return map;
 			}
 		},
+		/**
+		 * Maps of a virtual file for each source file it has mappings to, the source file that it belongs to comes first.
+		 */
+		getMaps: getVirtualFileMaps,
 	};
 
+	function* getVirtualFileMaps(virtualFileUri: string) {
+		const fileName = shared.getPathOfUri(virtualFileUri);
+		const source = mapper.getSourceByVirtualFileName(fileName);
+		if (source) {
+			const maps = getMaps(source[0], source[1], source[2]);
+			for (const [file, map] of maps.maps) {
+				if (mapper.getCanonicalFileName(file.fileName) === mapper.getCanonicalFileName(fileName)) {
+					yield map;
+					for (const [sourceFileName, externalMap] of mapper.getSourceMaps(file)) {
+						if (sourceFileName === source[0])
+							continue;
+						const externalSource = mapper.get(sourceFileName);
+						if (externalSource) {
+							const externalDocument = getMaps(sourceFileName, externalSource[0], externalSource[1]).document;
+							yield getExternalMap(externalDocument, externalMap, map);
+						}
+					}
+					break;
+				}
+			}
+		}
+	}
+
+	function getExternalMaps(fileName: string, document: TextDocument) {
+
+		const result = new Map<VirtualFile, EmbeddedDocumentSourceMap>();
+
+		for (const [virtualFileSourceFileName, virtualFileSourceSnapshot, file] of mapper.getVirtualFilesByExternalSource(fileName)) {
+
+			const virtualFileSource = mapper.get(virtualFileSourceFileName);
+			if (!virtualFileSource)
+				continue;
+
+			const map = getMaps(virtualFileSourceFileName, virtualFileSourceSnapshot, virtualFileSource[1]).maps.get(file);
+			if (!map)
+				continue;
+
+			for (const [sourceFileName, externalMap] of mapper.getSourceMaps(file)) {
+				if (mapper.getCanonicalFileName(sourceFileName) === mapper.getCanonicalFileName(fileName)) {
+					result.set(file, getExternalMap(document, externalMap, map));
+				}
+			}
+		}
+
+		return result;
+	}
+
+	function getExternalMap(sourceDocument: TextDocument, externalMap: SourceMapBase<PositionCapabilities>, map: EmbeddedDocumentSourceMap) {
+		let maps = externalMaps.get(sourceDocument);
+		if (!maps) {
+			maps = new WeakMap();
+			externalMaps.set(sourceDocument, maps);
+		}
+		let result = maps.get(externalMap);
+		if (!result) {
+			result = new EmbeddedDocumentSourceMap(
+				map.rootFile,
+				map.file,
+				sourceDocument,
+				map.mappedDocument,
+				externalMap.mappings,
+			);
+			maps.set(externalMap, result);
+		}
+		return result;
+	}
+
 	function getMaps(fileName: string, snapshot: ts.IScriptSnapshot, rootFile: VirtualFile) {
 
 		let result = snapshotsToMaps.get(snapshot);
@@ -245,7 +317,7 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 					file,
 					document,
 					virtualFileDocument,
-					file.mappings,
+					mapper.getSourceMap(file).mappings,
 				));
 				if (file.teleportMappings) {
 					teleports.set(file, new TeleportSourceMap(
@@ -263,6 +335,7 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 				file: rootFile,
 				maps,
 				teleports,
+				externalMaps: new Map(),
 			};
 			snapshotsToMaps.set(snapshot, result);
 		}
@@ -270,3 +343,7 @@ export function parseSourceFileDocuments(mapper: DocumentRegistry) {
 		return result;
 	}
 }
+
+function isOffsetRangeArgs<Data>(args: RangeArgs<Data>): args is OffsetRangeArgs<Data> {
+	return typeof args[0] === 'number';
+}
@@ -9,6 +9,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'doAutoInsert',
 			uri,
 			{ position, autoInsertContext },
 			function* (arg, map) {
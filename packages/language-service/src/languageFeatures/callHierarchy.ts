@@ -8,7 +8,7 @@ import { languageFeatureWorker } from '../utils/featureWorkers';
 export interface PluginCallHierarchyData {
 	uri: string,
 	originalItem: vscode.CallHierarchyItem,
-	pluginId: number,
+	pluginId: string,
 	map: {
 		embeddedDocumentUri: string;
 	} | undefined,
@@ -22,6 +22,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 			return languageFeatureWorker(
 				context,
+				'callHierarchy',
 				uri,
 				position,
 				(position, map) => map.toGeneratedPositions(position, data => !!data.references),
@@ -35,7 +36,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							data: {
 								uri,
 								originalItem: item,
-								pluginId: context.plugins.indexOf(plugin),
+								pluginId: plugin.id,
 								map: map ? {
 									embeddedDocumentUri: map.mappedDocument.uri,
 								} : undefined,
@@ -57,7 +58,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 			if (data) {
 
-				const plugin = context.plugins[data.pluginId];
+				const plugin = context.getPluginById(data.pluginId);
 
 				if (!plugin)
 					return incomingItems;
@@ -118,7 +119,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 			if (data) {
 
-				const plugin = context.plugins[data.pluginId];
+				const plugin = context.getPluginById(data.pluginId);
 
 				if (!plugin)
 					return items;
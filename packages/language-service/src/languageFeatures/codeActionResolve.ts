@@ -10,7 +10,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		if (data) {
 
-			const plugin = context.plugins[data.pluginId];
+			const plugin = context.getPluginById(data.pluginId);
 
 			if (!plugin)
 				return item;
@@ -2,7 +2,6 @@ import * as shared from '@volar/shared';
 import { transformLocations } from '@volar/transforms';
 import * as vscode from 'vscode-languageserver-protocol';
 import type { LanguageServiceRuntimeContext } from '../types';
-import { getOverlapRange } from '../utils/common';
 import * as dedupe from '../utils/dedupe';
 import { languageFeatureWorker } from '../utils/featureWorkers';
 import { embeddedEditToSourceEdit } from './rename';
@@ -10,7 +9,7 @@ import { embeddedEditToSourceEdit } from './rename';
 export interface PluginCodeActionData {
 	uri: string,
 	originalItem: vscode.CodeAction,
-	pluginId: number,
+	pluginId: string,
 	map: {
 		embeddedDocumentUri: string;
 	} | undefined,
@@ -32,6 +31,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		let codeActions = await languageFeatureWorker(
 			context,
+			'codeAction',
 			uri,
 			{ range, codeActionContext },
 			(_arg, map) => {
@@ -50,16 +50,9 @@ export function register(context: LanguageServiceRuntimeContext) {
 				let minStart: number | undefined;
 				let maxEnd: number | undefined;
 
-				for (const mapping of map.mappings) {
-					const overlapRange = getOverlapRange(offsetRange.start, offsetRange.end, mapping.sourceRange[0], mapping.sourceRange[1]);
-					if (overlapRange) {
-						const start = map.toGeneratedOffset(overlapRange.start)?.[0];
-						const end = map.toGeneratedOffset(overlapRange.end)?.[0];
-						if (start !== undefined && end !== undefined) {
-							minStart = minStart === undefined ? start : Math.min(start, minStart);
-							maxEnd = maxEnd === undefined ? end : Math.max(end, maxEnd);
-						}
-					}
+				for (const mapped of map.toGeneratedRanges(offsetRange.start, offsetRange.end, undefined, 'clip')) {
+					minStart = minStart === undefined ? mapped[0][0] : Math.min(mapped[0][0], minStart);
+					maxEnd = maxEnd === undefined ? mapped[0][1] : Math.max(mapped[0][1], maxEnd);
 				}
 
 				if (minStart !== undefined && maxEnd !== undefined) {
@@ -84,7 +77,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 						data: {
 							uri,
 							originalItem: _codeAction,
-							pluginId: context.plugins.indexOf(plugin),
+							pluginId: plugin.id,
 							map: map ? {
 								embeddedDocumentUri: map.mappedDocument.uri,
 							} : undefined,
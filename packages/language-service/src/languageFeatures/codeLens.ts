@@ -7,7 +7,7 @@ import { executePluginCommand, ExecutePluginCommandArgs } from './executeCommand
 export interface PluginCodeLensData {
 	uri: string,
 	originalItem: vscode.CodeLens,
-	pluginId: number,
+	pluginId: string,
 }
 
 export function register(context: LanguageServiceRuntimeContext) {
@@ -16,6 +16,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return await languageFeatureWorker(
 			context,
+			'codeLens',
 			uri,
 			undefined,
 			(arg) => [arg],
@@ -25,7 +26,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 				if (codeLens) {
 					return codeLens.map<vscode.CodeLens>(item => {
-						const commandArgs: ExecutePluginCommandArgs | undefined = item.command ? [uri, context.plugins.indexOf(plugin), item.command] : undefined;
+						const commandArgs: ExecutePluginCommandArgs | undefined = item.command ? [uri, plugin.id, item.command] : undefined;
 						return {
 							...item,
 							command: item.command && commandArgs ? {
@@ -36,7 +37,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							data: {
 								uri,
 								originalItem: item,
-								pluginId: context.plugins.indexOf(plugin),
+								pluginId: plugin.id,
 							} satisfies PluginCodeLensData,
 						};
 					});
@@ -4,11 +4,12 @@ import * as vscode from 'vscode-languageserver-protocol';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { LanguageServiceRuntimeContext } from '../types';
 import { visitEmbedded } from '../utils/definePlugin';
+import { getPlugins } from '../utils/featureWorkers';
 
 export interface PluginCompletionData {
 	uri: string,
 	originalItem: vscode.CompletionItem,
-	pluginId: number,
+	pluginId: string,
 	map: {
 		embeddedDocumentUri: string;
 	} | undefined,
@@ -70,7 +71,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							(newItem, oldItem) => newItem.data = {
 								uri,
 								originalItem: oldItem,
-								pluginId: context.plugins.indexOf(cacheData.plugin),
+								pluginId: cacheData.plugin.id,
 								map: {
 									embeddedDocumentUri: map.mappedDocument.uri,
 								},
@@ -97,7 +98,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							data: {
 								uri,
 								originalItem: item,
-								pluginId: context.plugins.indexOf(cacheData.plugin),
+								pluginId: cacheData.plugin.id,
 								map: undefined,
 							} satisfies PluginCompletionData,
 						})),
@@ -122,7 +123,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 				await visitEmbedded(vueDocument, async map => {
 
-					const plugins = context.plugins.sort(sortPlugins);
+					const plugins = (await getPlugins(context, 'complete', map.mappedDocument, map)).sort(sortPlugins);
 
 					let _data: PositionCapabilities | undefined;
 
@@ -170,7 +171,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 								(newItem, oldItem) => newItem.data = {
 									uri,
 									originalItem: oldItem,
-									pluginId: context.plugins.indexOf(plugin),
+									pluginId: plugin.id,
 									map: {
 										embeddedDocumentUri: map.mappedDocument.uri,
 									}
@@ -195,7 +196,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 			if (document = context.getTextDocument(uri)) {
 
-				const plugins = context.plugins.sort(sortPlugins);
+				const plugins = (await getPlugins(context, 'complete', document)).sort(sortPlugins);
 
 				for (const plugin of plugins) {
 
@@ -235,7 +236,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 									data: {
 										uri,
 										originalItem: item,
-										pluginId: context.plugins.indexOf(plugin),
+										pluginId: plugin.id,
 										sourceMap: undefined,
 									},
 								};
@@ -18,6 +18,7 @@ export function register(
 
 		return languageFeatureWorker(
 			context,
+			api === 'findImplementations' ? 'findImplementations' : 'definition',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position, isValidMappingData),
@@ -97,13 +98,15 @@ export function register(
 					link.originSelectionRange = originSelectionRange;
 				}
 
-				const targetSourceMap = context.documents.getMap(link.targetUri);
+				let isVirtualFile = false;
 
-				if (targetSourceMap) {
+				for (const targetSourceMap of context.documents.getMaps(link.targetUri)) {
+
+					isVirtualFile = true;
 
 					const targetSelectionRange = targetSourceMap.toSourceRange(link.targetSelectionRange);
 					if (!targetSelectionRange)
-						return;
+						continue;
 
 					let targetRange = targetSourceMap.toSourceRange(link.targetRange);
 
@@ -111,9 +114,13 @@ export function register(
 					// loose range mapping to for template slots, slot properties
 					link.targetRange = targetRange ?? targetSelectionRange;
 					link.targetSelectionRange = targetSelectionRange;
+
+					return link;
 				}
 
-				return link;
+				if (!isVirtualFile) {
+					return link;
+				}
 			}).filter(shared.notEmpty),
 			arr => dedupe.withLocationLinks(arr.flat()),
 		);
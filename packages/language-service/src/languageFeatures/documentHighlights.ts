@@ -11,6 +11,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'findDocumentHighlights',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position,
@@ -11,6 +11,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		const pluginLinks = await languageFeatureWorker(
 			context,
+			'findDocumentLinks',
 			uri,
 			undefined,
 			(arg) => [arg],
@@ -29,6 +29,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'findDocumentSemanticTokens',
 			uri,
 			offsetRange,
 			function* (offsetRange, map) {
@@ -1,12 +1,13 @@
 import type { LanguageServiceRuntimeContext } from '../types';
 import { ExecuteCommandContext } from '@volar/language-service';
 import * as vscode from 'vscode-languageserver-protocol';
+import { getPlugins } from '../utils/featureWorkers';
 
 export const executePluginCommand = 'volar.executePluginCommand';
 
 export type ExecutePluginCommandArgs = [
 	string, // uri
-	number | undefined, // plugin id
+	string | undefined, // plugin id
 	vscode.Command, // original command
 ];
 
@@ -17,16 +18,19 @@ export function register(context: LanguageServiceRuntimeContext) {
 		if (command === executePluginCommand) {
 
 			const [_uri, pluginId, originalCommand] = args as ExecutePluginCommandArgs;
+			const plugins = await getPlugins(context, 'doExecuteCommand');
 
 			if (pluginId !== undefined) {
 
-				const plugin = context.plugins[pluginId];
+				const plugin = context.getPluginById(pluginId);
 
-				await plugin?.doExecuteCommand?.(originalCommand.command, originalCommand.arguments as any, executeCommandContext);
+				if (plugin && plugins.includes(plugin)) {
+					await plugin.doExecuteCommand?.(originalCommand.command, originalCommand.arguments as any, executeCommandContext);
+				}
 			}
 			else {
 
-				for (const plugin of context.plugins) {
+				for (const plugin of plugins) {
 
 					await plugin.doExecuteCommand?.(originalCommand.command, originalCommand.arguments as any, executeCommandContext);
 				}
@@ -11,6 +11,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'findFileReferences',
 			uri,
 			undefined,
 			function* (_) {
@@ -21,12 +22,10 @@ export function register(context: LanguageServiceRuntimeContext) {
 			},
 			(data) => data.map(reference => {
 
-				const map = context.documents.getMap(reference.uri);
-				if (!map) {
-					return reference;
-				}
+				let isVirtualFile = false;
 
-				if (map) {
+				for (const map of context.documents.getMaps(reference.uri)) {
+					isVirtualFile = true;
 					const range = map.toSourceRange(reference.range);
 					if (range) {
 						reference.uri = map.sourceDocument.uri;
@@ -34,6 +33,10 @@ export function register(context: LanguageServiceRuntimeContext) {
 						return reference;
 					}
 				}
+
+				if (!isVirtualFile) {
+					return reference;
+				}
 			}).filter(shared.notEmpty),
 			arr => dedupe.withLocations(arr.flat()),
 		);
@@ -2,6 +2,7 @@ import type { LanguageServiceRuntimeContext } from '../types';
 import { embeddedEditToSourceEdit } from './rename';
 import type * as _ from 'vscode-languageserver-protocol';
 import * as dedupe from '../utils/dedupe';
+import { getPlugins } from '../utils/featureWorkers';
 import { forEachEmbeddeds } from '@volar/language-core';
 
 export function register(context: LanguageServiceRuntimeContext) {
@@ -28,7 +29,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 			newUri += tsExt;
 		}
 
-		for (const plugin of context.plugins) {
+		for (const plugin of await getPlugins(context, 'doFileRename')) {
 
 			if (!plugin.doFileRename)
 				continue;
@@ -9,6 +9,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'doHover',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position, data => !!data.hover),
@@ -0,0 +1,45 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { LanguageServiceRuntimeContext } from '../types';
+import { PluginInlayHintData, transformInlayHint } from './inlayHints';
+
+export function register(context: LanguageServiceRuntimeContext) {
+
+	return async (item: vscode.InlayHint) => {
+
+		const data: PluginInlayHintData | undefined = item.data;
+
+		if (data) {
+
+			const plugin = context.getPluginById(data.pluginId);
+
+			if (!plugin)
+				return item;
+
+			if (!plugin.inlayHints?.resolve)
+				return item;
+
+			const resolvedItem = await plugin.inlayHints.resolve(data.originalItem);
+
+			if (data.map) {
+
+				const map = context.documents.getMap(data.map.embeddedDocumentUri);
+
+				if (map) {
+					item = {
+						...transformInlayHint(context, resolvedItem, map),
+						position: item.position, // position already transformed in inlayHints request
+						data: item.data,
+					};
+				}
+			}
+			else {
+				item = {
+					...resolvedItem,
+					data: item.data,
+				};
+			}
+		}
+
+		return item;
+	};
+}
@@ -1,10 +1,19 @@
 import * as shared from '@volar/shared';
 import { transformTextEdit } from '@volar/transforms';
 import * as vscode from 'vscode-languageserver-protocol';
+import type { EmbeddedDocumentSourceMap } from '../documents';
 import type { LanguageServiceRuntimeContext } from '../types';
-import { getOverlapRange } from '../utils/common';
 import { languageFeatureWorker } from '../utils/featureWorkers';
 
+export interface PluginInlayHintData {
+	uri: string,
+	originalItem: vscode.InlayHint,
+	pluginId: string,
+	map: {
+		embeddedDocumentUri: string;
+	} | undefined,
+}
+
 export function register(context: LanguageServiceRuntimeContext) {
 
 	return async (uri: string, range: vscode.Range) => {
@@ -21,6 +30,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'inlayHints',
 			uri,
 			range,
 			(_arg, map) => {
@@ -35,16 +45,9 @@ export function register(context: LanguageServiceRuntimeContext) {
 				let minStart: number | undefined;
 				let maxEnd: number | undefined;
 
-				for (const mapping of map.mappings) {
-					const overlapRange = getOverlapRange(offsetRange.start, offsetRange.end, mapping.sourceRange[0], mapping.sourceRange[1]);
-					if (overlapRange) {
-						const start = map.toGeneratedOffset(overlapRange.start)?.[0];
-						const end = map.toGeneratedOffset(overlapRange.end)?.[0];
-						if (start !== undefined && end !== undefined) {
-							minStart = minStart === undefined ? start : Math.min(start, minStart);
-							maxEnd = maxEnd === undefined ? end : Math.max(end, maxEnd);
-						}
-					}
+				for (const mapped of map.toGeneratedRanges(offsetRange.start, offsetRange.end, undefined, 'clip')) {
+					minStart = minStart === undefined ? mapped[0][0] : Math.min(mapped[0][0], minStart);
+					maxEnd = maxEnd === undefined ? mapped[0][1] : Math.max(mapped[0][1], maxEnd);
 				}
 
 				if (minStart !== undefined && maxEnd !== undefined) {
@@ -56,8 +59,21 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 				return [];
 			},
-			(plugin, document, arg) => {
-				return plugin.inlayHints?.on?.(document, arg);
+			async (plugin, document, arg, map) => {
+
+				const inlayHints = await plugin.inlayHints?.on?.(document, arg);
+
+				return inlayHints?.map<vscode.InlayHint>(inlayHint => ({
+					...inlayHint,
+					data: {
+						uri,
+						originalItem: inlayHint,
+						pluginId: plugin.id,
+						map: map ? {
+							embeddedDocumentUri: map.mappedDocument.uri,
+						} : undefined,
+					} satisfies PluginInlayHintData,
+				}));
 			},
 			(inlayHints, map) => inlayHints.map(_inlayHint => {
 
@@ -65,15 +81,11 @@ export function register(context: LanguageServiceRuntimeContext) {
 					return _inlayHint;
 
 				const position = map.toSourcePosition(_inlayHint.position);
-				const edits = _inlayHint.textEdits
-					?.map(textEdit => transformTextEdit(textEdit, range => map!.toSourceRange(range)))
-					.filter(shared.notEmpty);
 
 				if (position) {
 					return {
-						..._inlayHint,
+						...transformInlayHint(context, _inlayHint, map),
 						position,
-						edits,
 					};
 				}
 			}).filter(shared.notEmpty),
@@ -81,3 +93,43 @@ export function register(context: LanguageServiceRuntimeContext) {
 		);
 	};
 }
+
+/**
+ * Transform `label[].location` and `textEdits` of `inlayHint` to the source documents, `position` is not transformed.
+ */
+export function transformInlayHint(context: LanguageServiceRuntimeContext, inlayHint: vscode.InlayHint, map: EmbeddedDocumentSourceMap): vscode.InlayHint {
+
+	const textEdits = inlayHint.textEdits
+		?.map(textEdit => transformTextEdit(textEdit, range => map.toSourceRange(range)))
+		.filter(shared.notEmpty);
+
+	return {
+		...inlayHint,
+		label: typeof inlayHint.label === 'string' ? inlayHint.label : inlayHint.label.map(part => {
+			if (!part.location)
+				return part;
+			const { location, ...partWithoutLocation } = part;
+			const sourceLocation = transformLocation(location);
+			return sourceLocation ? { ...partWithoutLocation, location: sourceLocation } : partWithoutLocation;
+		}),
+		// applying a part of the edits may break the source document
+		textEdits: textEdits?.length === inlayHint.textEdits?.length ? textEdits : undefined,
+	};
+
+	function transformLocation(location: vscode.Location): vscode.Location | undefined {
+		let isVirtualFile = false;
+		for (const map of context.documents.getMaps(location.uri)) {
+			isVirtualFile = true;
+			const range = map.toSourceRange(location.range);
+			if (range) {
+				return {
+					uri: map.sourceDocument.uri,
+					range,
+				};
+			}
+		}
+		if (!isVirtualFile) {
+			return location;
+		}
+	}
+}
@@ -10,6 +10,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'findReferences',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position, data => !!data.references),
@@ -69,8 +70,9 @@ export function register(context: LanguageServiceRuntimeContext) {
 				const results: vscode.Location[] = [];
 
 				for (const reference of data) {
-					const map = context.documents.getMap(reference.uri);
-					if (map) {
+					let isVirtualFile = false;
+					for (const map of context.documents.getMaps(reference.uri)) {
+						isVirtualFile = true;
 						const range = map.toSourceRange(reference.range, data => !!data.references);
 						if (range) {
 							results.push({
@@ -79,7 +81,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							});
 						}
 					}
-					else {
+					if (!isVirtualFile) {
 						results.push(reference);
 					}
 				}
@@ -14,6 +14,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'rename',
 			uri,
 			{ position, newName },
 			function* (arg, map) {
@@ -197,29 +198,32 @@ export function embeddedEditToSourceEdit(
 		if (!vueResult.changes) {
 			vueResult.changes = {};
 		}
-		const map = vueDocuments.getMap(tsUri);
-		if (!map) {
+		const maps = [...vueDocuments.getMaps(tsUri)];
+		if (!maps.length) {
 			vueResult.changes[tsUri] = tsResult.changes[tsUri];
 			hasResult = true;
 			continue;
 		}
 		const tsEdits = tsResult.changes[tsUri];
 		for (const tsEdit of tsEdits) {
-			let _data: PositionCapabilities | undefined;
-			const range = map.toSourceRange(tsEdit.range, data => {
-				_data = data;
-				return typeof data.rename === 'object' ? !!data.rename.apply : !!data.rename;
-			});
-			if (range) {
-				let newText = tsEdit.newText;
-				if (_data && typeof _data.rename === 'object' && _data.rename.apply) {
-					newText = _data.rename.apply(tsEdit.newText);
-				}
-				if (!vueResult.changes[map.sourceDocument.uri]) {
-					vueResult.changes[map.sourceDocument.uri] = [];
+			for (const map of maps) {
+				let _data: PositionCapabilities | undefined;
+				const range = map.toSourceRange(tsEdit.range, data => {
+					_data = data;
+					return typeof data.rename === 'object' ? !!data.rename.apply : !!data.rename;
+				});
+				if (range) {
+					let newText = tsEdit.newText;
+					if (_data && typeof _data.rename === 'object' && _data.rename.apply) {
+						newText = _data.rename.apply(tsEdit.newText);
+					}
+					if (!vueResult.changes[map.sourceDocument.uri]) {
+						vueResult.changes[map.sourceDocument.uri] = [];
+					}
+					vueResult.changes[map.sourceDocument.uri].push({ newText, range });
+					hasResult = true;
+					break;
 				}
-				vueResult.changes[map.sourceDocument.uri].push({ newText, range });
-				hasResult = true;
 			}
 		}
 	}
@@ -230,37 +234,47 @@ export function embeddedEditToSourceEdit(
 			}
 			let vueDocEdit: typeof tsDocEdit | undefined;
 			if (vscode.TextDocumentEdit.is(tsDocEdit)) {
-				const map = vueDocuments.getMap(tsDocEdit.textDocument.uri);
-				if (map) {
-					vueDocEdit = vscode.TextDocumentEdit.create(
-						{
-							uri: map.sourceDocument.uri,
-							// version: map.sourceDocument.version,
-							version: null, // fix https://github.com/johnsoncodehk/volar/issues/1490
-						},
-						[],
-					);
+				const maps = [...vueDocuments.getMaps(tsDocEdit.textDocument.uri)];
+				if (maps.length) {
+					// edits may belong to different source documents
+					const vueDocEdits = new Map<string, vscode.TextDocumentEdit>();
 					for (const tsEdit of tsDocEdit.edits) {
-						let _data: PositionCapabilities | undefined;
-						const range = map.toSourceRange(tsEdit.range, data => {
-							_data = data;
-							// fix https://github.com/johnsoncodehk/volar/issues/1091
-							return typeof data.rename === 'object' ? !!data.rename.apply : !!data.rename;
-						});
-						if (range) {
-							let newText = tsEdit.newText;
-							if (_data && typeof _data.rename === 'object' && _data.rename.apply) {
-								newText = _data.rename.apply(tsEdit.newText);
-							}
-							vueDocEdit.edits.push({
-								annotationId: vscode.AnnotatedTextEdit.is(tsEdit.range) ? tsEdit.range.annotationId : undefined,
-								newText,
-								range,
+						for (const map of maps) {
+							let _data: PositionCapabilities | undefined;
+							const range = map.toSourceRange(tsEdit.range, data => {
+								_data = data;
+								// fix https://github.com/johnsoncodehk/volar/issues/1091
+								return typeof data.rename === 'object' ? !!data.rename.apply : !!data.rename;
 							});
+							if (range) {
+								let newText = tsEdit.newText;
+								if (_data && typeof _data.rename === 'object' && _data.rename.apply) {
+									newText = _data.rename.apply(tsEdit.newText);
+								}
+								let vueDocEdit = vueDocEdits.get(map.sourceDocument.uri);
+								if (!vueDocEdit) {
+									vueDocEdit = vscode.TextDocumentEdit.create(
+										{
+											uri: map.sourceDocument.uri,
+											// version: map.sourceDocument.version,
+											version: null, // fix https://github.com/johnsoncodehk/volar/issues/1490
+										},
+										[],
+									);
+									vueDocEdits.set(map.sourceDocument.uri, vueDocEdit);
+								}
+								vueDocEdit.edits.push({
+									annotationId: vscode.AnnotatedTextEdit.is(tsEdit.range) ? tsEdit.range.annotationId : undefined,
+									newText,
+									range,
+								});
+								break;
+							}
 						}
 					}
-					if (!vueDocEdit.edits.length) {
-						vueDocEdit = undefined;
+					for (const [_, vueDocEdit] of vueDocEdits) {
+						vueResult.documentChanges.push(vueDocEdit);
+						hasResult = true;
 					}
 				}
 				else {
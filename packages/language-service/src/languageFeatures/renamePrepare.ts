@@ -13,6 +13,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 		const document = context.getTextDocument(uri);
 		const result = await languageFeatureWorker(
 			context,
+			'rename',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position, data => typeof data.rename === 'object' ? !!data.rename.apply : !!data.rename),
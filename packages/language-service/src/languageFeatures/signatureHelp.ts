@@ -8,6 +8,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		return languageFeatureWorker(
 			context,
+			'getSignatureHelp',
 			uri,
 			position,
 			(position, map) => map.toGeneratedPositions(position, data => !!data.completion),
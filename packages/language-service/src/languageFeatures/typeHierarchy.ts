@@ -0,0 +1,113 @@
+import * as shared from '@volar/shared';
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { LanguageServicePlugin, LanguageServiceRuntimeContext } from '../types';
+import * as dedupe from '../utils/dedupe';
+import { languageFeatureWorker } from '../utils/featureWorkers';
+
+export interface PluginTypeHierarchyData {
+	uri: string,
+	originalItem: vscode.TypeHierarchyItem,
+	pluginId: string,
+	map: {
+		embeddedDocumentUri: string;
+	} | undefined,
+}
+
+export function register(context: LanguageServiceRuntimeContext) {
+
+	return {
+
+		doPrepare(uri: string, position: vscode.Position) {
+
+			return languageFeatureWorker(
+				context,
+				'typeHierarchy',
+				uri,
+				position,
+				(position, map) => map.toGeneratedPositions(position, data => !!data.references),
+				async (plugin, document, position) => {
+
+					const items = await plugin.typeHierarchy?.prepare(document, position);
+
+					return items?.map(item => withPluginData(plugin, item));
+				},
+				(data, sourceMap) => !sourceMap ? data : data
+					.map(transformTypeHierarchyItem)
+					.filter(shared.notEmpty),
+				arr => dedupe.withLocations(arr.flat()),
+			);
+		},
+
+		getSupertypes(item: vscode.TypeHierarchyItem) {
+			return getRelatedTypes(item, 'supertypes');
+		},
+
+		getSubtypes(item: vscode.TypeHierarchyItem) {
+			return getRelatedTypes(item, 'subtypes');
+		},
+	};
+
+	async function getRelatedTypes(item: vscode.TypeHierarchyItem, direction: 'supertypes' | 'subtypes') {
+
+		const data: PluginTypeHierarchyData | undefined = item.data;
+
+		if (!data)
+			return [];
+
+		const plugin = context.getPluginById(data.pluginId);
+
+		if (!plugin?.typeHierarchy)
+			return [];
+
+		// the embedded document no longer exists
+		if (data.map && !context.documents.getMap(data.map.embeddedDocumentUri))
+			return [];
+
+		const items = await plugin.typeHierarchy[direction](data.originalItem);
+
+		return dedupe.withLocations(
+			items
+				.map(item => transformTypeHierarchyItem(withPluginData(plugin, item)))
+				.filter(shared.notEmpty)
+		);
+	}
+
+	/**
+	 * Items returned by supertypes and subtypes can be expanded again, so all of them carry the plugin data.
+	 */
+	function withPluginData(plugin: LanguageServicePlugin, item: vscode.TypeHierarchyItem): vscode.TypeHierarchyItem {
+		const map = context.documents.getMap(item.uri);
+		return {
+			...item,
+			data: {
+				uri: map?.sourceDocument.uri ?? item.uri,
+				originalItem: item,
+				pluginId: plugin.id,
+				map: map ? {
+					embeddedDocumentUri: map.mappedDocument.uri,
+				} : undefined,
+			} satisfies PluginTypeHierarchyData,
+		};
+	}
+
+	function transformTypeHierarchyItem(item: vscode.TypeHierarchyItem): vscode.TypeHierarchyItem | undefined {
+
+		const map = context.documents.getMap(item.uri);
+		if (!map)
+			return item; // not virtual file
+
+		const selectionRange = map.toSourceRange(item.selectionRange);
+		if (!selectionRange)
+			return;
+
+		// the declaration may be partly generated
+		const range = map.toSourceRange(item.range, undefined, 'expand') ?? selectionRange;
+
+		return {
+			...item,
+			uri: map.sourceDocument.uri,
+			range,
+			selectionRange,
+		};
+	}
+}
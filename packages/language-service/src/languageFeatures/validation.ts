@@ -1,9 +1,10 @@
+import { DiagnosticMappingMetadata, getDiagnosticFallbackRange } from '@volar/language-core';
 import * as shared from '@volar/shared';
 import type * as ts from 'typescript/lib/tsserverlibrary';
 import * as vscode from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { EmbeddedDocumentSourceMap } from '../documents';
-import type { LanguageServiceRuntimeContext } from '../types';
+import type { LanguageServicePlugin, LanguageServiceRuntimeContext } from '../types';
 import * as dedupe from '../utils/dedupe';
 import { languageFeatureWorker } from '../utils/featureWorkers';
 
@@ -104,7 +105,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 		{ [key in 'nonTs' | 'tsSemantic' | 'tsDeclaration' | 'tsSyntactic' | 'tsSuggestion']: Cache }
 	>();
 	const nonTsCache = new Map<
-		number,
+		LanguageServicePlugin,
 		Map<
 			string,
 			{
@@ -188,6 +189,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 		) {
 			const result = await languageFeatureWorker(
 				context,
+				'validation',
 				uri,
 				true,
 				function* (arg, map) {
@@ -208,8 +210,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 							return;
 					}
 
-					const pluginId = context.plugins.indexOf(plugin);
-					const pluginCache = cacheMap.get(pluginId) ?? cacheMap.set(pluginId, new Map()).get(pluginId)!;
+					const pluginCache = cacheMap.get(plugin) ?? cacheMap.set(plugin, new Map()).get(plugin)!;
 					const cache = pluginCache.get(document.uri);
 					const tsProjectVersion = (mode === 'onDeclaration' || mode === 'onSemantic') ? context.core.typescriptLanguageServiceHost.getProjectVersion?.() : undefined;
 
@@ -254,14 +255,24 @@ export function register(context: LanguageServiceRuntimeContext) {
 		for (const error of errors) {
 
 			// clone it to avoid modify cache
-			let _error: vscode.Diagnostic = { ...error };
+			let _error: vscode.Diagnostic & DiagnosticMappingMetadata = { ...error };
 
 			if (map) {
-				const range = map.toSourceRange(error.range, data => !!data.diagnostic);
-				if (!range) {
-					continue;
+				const range = map.toSourceRange(error.range, data => !!data.diagnostic, 'expand');
+				if (range) {
+					_error.range = range;
+				}
+				else {
+					const fallback = getDiagnosticFallbackRange(map.file, map, map.mappedDocument.offsetAt(error.range.start), map.mappedDocument.offsetAt(error.range.end));
+					if (!fallback) {
+						continue;
+					}
+					_error.range = {
+						start: map.sourceDocument.positionAt(fallback.range[0]),
+						end: map.sourceDocument.positionAt(fallback.range[1]),
+					};
+					_error.mappingFallback = fallback.fallback;
 				}
-				_error.range = range;
 			}
 
 			if (_error.relatedInformation) {
@@ -269,9 +280,10 @@ export function register(context: LanguageServiceRuntimeContext) {
 				const relatedInfos: vscode.DiagnosticRelatedInformation[] = [];
 
 				for (const info of _error.relatedInformation) {
-					const map = context.documents.getMap(info.location.uri);
-					if (map) {
-						const range = map.toSourceRange(info.location.range, data => !!data.diagnostic);
+					let isVirtualFile = false;
+					for (const map of context.documents.getMaps(info.location.uri)) {
+						isVirtualFile = true;
+						const range = map.toSourceRange(info.location.range, data => !!data.diagnostic, 'expand');
 						if (range) {
 							relatedInfos.push({
 								location: {
@@ -280,9 +292,10 @@ export function register(context: LanguageServiceRuntimeContext) {
 								},
 								message: info.message,
 							});
+							break;
 						}
 					}
-					else {
+					if (!isVirtualFile) {
 						relatedInfos.push(info);
 					}
 				}
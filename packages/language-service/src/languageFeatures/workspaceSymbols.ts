@@ -1,6 +1,7 @@
 import { transformSymbolInformations } from '@volar/transforms';
 import * as vscode from 'vscode-languageserver-protocol';
 import type { LanguageServiceRuntimeContext } from '../types';
+import { getPlugins } from '../utils/featureWorkers';
 
 export function register(context: LanguageServiceRuntimeContext) {
 
@@ -8,7 +9,7 @@ export function register(context: LanguageServiceRuntimeContext) {
 
 		const symbolsList: vscode.SymbolInformation[][] = [];
 
-		for (const plugin of context.plugins) {
+		for (const plugin of await getPlugins(context, 'findWorkspaceSymbols')) {
 
 			if (!plugin.findWorkspaceSymbols)
 				continue;
@@ -19,14 +20,15 @@ export function register(context: LanguageServiceRuntimeContext) {
 				continue;
 
 			const symbols = transformSymbolInformations(embeddedSymbols, loc => {
-				const map = context.documents.getMap(loc.uri);
-				if (map) {
+				let isVirtualFile = false;
+				for (const map of context.documents.getMaps(loc.uri)) {
+					isVirtualFile = true;
 					const range = map.toSourceRange(loc.range);
 					if (range) {
 						return vscode.Location.create(map.sourceDocument.uri, range);
 					}
 				}
-				else {
+				if (!isVirtualFile) {
 					return loc;
 				}
 			});
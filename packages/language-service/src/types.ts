@@ -1,4 +1,4 @@
-import { EmbeddedLanguageContext, LanguageServiceHost } from '@volar/language-core';
+import { EmbeddedFileKind, EmbeddedLanguageContext, LanguageServiceHost } from '@volar/language-core';
 import type * as ts from 'typescript/lib/tsserverlibrary';
 import type { DocumentContext, FileSystemProvider } from 'vscode-html-languageservice';
 import type { SchemaRequestService } from 'vscode-json-languageservice';
@@ -25,6 +25,10 @@ export interface LanguageServiceRuntimeContext {
 	documents: SourceFileDocuments;
 	plugins: LanguageServicePlugin[];
 	pluginContext: LanguageServicePluginContext;
+	/**
+	 * Plugins without an id or with a duplicate id are not returned, items of them are not resolved.
+	 */
+	getPluginById(pluginId: string): LanguageServicePlugin | undefined;
 	getTextDocument(uri: string): TextDocument | undefined;
 };
 
@@ -40,6 +44,10 @@ export interface LanguageServicePluginContext {
 		documentContext?: DocumentContext;
 		fileSystemProvider?: FileSystemProvider;
 		schemaRequestService?: SchemaRequestService;
+		/**
+		 * `console` by default.
+		 */
+		logger?: { warn(message: string): void; };
 	},
 }
 
@@ -73,8 +81,38 @@ export interface ExecuteCommandContext {
 	applyEdit(paramOrEdit: vscode.ApplyWorkspaceEditParams | vscode.WorkspaceEdit): Promise<vscode.ApplyWorkspaceEditResult>;
 }
 
+/**
+ * All of the specified conditions must match.
+ */
+export interface LanguageServicePluginSelector {
+	languageIds?: string[];
+	/**
+	 * Glob patterns of the document uri, `*` doesn't match `/` while `**` does.
+	 */
+	uriPatterns?: string[];
+	/**
+	 * Only checked for embedded documents, source documents are always accepted.
+	 */
+	embeddedFileKinds?: EmbeddedFileKind[];
+}
+
+/**
+ * Features that can be disabled by the `volar.plugins` configuration, e.g. `{ "css": { "doHover": false } }`.
+ */
+export type LanguageServicePluginFeature = Exclude<keyof LanguageServicePlugin, 'id' | 'selector' | 'setup' | 'resolveEmbeddedRange'>;
+
 export interface LanguageServicePlugin {
 
+	/**
+	 * Stable identifier of the plugin, it's stored in the `data` of completion items, code actions, code lenses and commands to resolve them later.
+	 */
+	id: string;
+
+	/**
+	 * Documents the plugin applies to, the plugin is called for all documents if not set.
+	 */
+	selector?: LanguageServicePluginSelector;
+
 	setup?(context: LanguageServicePluginContext): void;
 
 	validation?: {
@@ -135,9 +173,15 @@ export interface LanguageServicePlugin {
 		onOutgoingCalls(item: vscode.CallHierarchyItem): NotNullableResult<vscode.CallHierarchyOutgoingCall[]>;
 	},
 
+	typeHierarchy?: {
+		prepare(document: TextDocument, position: vscode.Position): NullableResult<vscode.TypeHierarchyItem[]>;
+		supertypes(item: vscode.TypeHierarchyItem): NotNullableResult<vscode.TypeHierarchyItem[]>;
+		subtypes(item: vscode.TypeHierarchyItem): NotNullableResult<vscode.TypeHierarchyItem[]>;
+	},
+
 	inlayHints?: {
 		on?(document: TextDocument, range: vscode.Range): NullableResult<vscode.InlayHint[]>,
-		// TODO: resolve
+		resolve?(inlayHint: vscode.InlayHint): NotNullableResult<vscode.InlayHint>,
 	},
 
 	// html
@@ -1,25 +1,6 @@
 import type * as vscode from 'vscode-languageserver-protocol';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 
-export function getOverlapRange(
-	range1Start: number,
-	range1End: number,
-	range2Start: number,
-	range2End: number,
-): { start: number, end: number; } | undefined {
-
-	const start = Math.max(range1Start, range2Start);
-	const end = Math.min(range1End, range2End);
-
-	if (start > end)
-		return undefined;
-
-	return {
-		start,
-		end,
-	};
-}
-
 export function isInsideRange(parent: vscode.Range, child: vscode.Range) {
 	if (child.start.line < parent.start.line) return false;
 	if (child.end.line > parent.end.line) return false;
@@ -19,5 +19,13 @@ export async function visitEmbedded(
 		return false;
 	}
 
+	if (current === vueDocument.file) {
+		for (const [_, externalMap] of vueDocument.externalMaps) {
+			if (!await cb(externalMap)) {
+				return false;
+			}
+		}
+	}
+
 	return true;
 }
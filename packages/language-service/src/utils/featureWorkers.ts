@@ -1,11 +1,12 @@
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import { visitEmbedded } from './definePlugin';
-import type { DocumentServiceRuntimeContext, LanguageServiceRuntimeContext } from '../types';
+import type { DocumentServiceRuntimeContext, LanguageServicePluginFeature, LanguageServicePluginSelector, LanguageServiceRuntimeContext } from '../types';
 import { LanguageServicePlugin } from '@volar/language-service';
 import { EmbeddedDocumentSourceMap, SourceFileDocument } from '../documents';
 
 export async function documentFeatureWorker<T>(
 	context: DocumentServiceRuntimeContext,
+	feature: LanguageServicePluginFeature,
 	document: TextDocument,
 	isValidSourceMap: (sourceMap: EmbeddedDocumentSourceMap) => boolean,
 	worker: (plugin: LanguageServicePlugin, document: TextDocument) => T,
@@ -14,6 +15,7 @@ export async function documentFeatureWorker<T>(
 ) {
 	return documentArgFeatureWorker(
 		context,
+		feature,
 		document,
 		true,
 		isValidSourceMap,
@@ -26,6 +28,7 @@ export async function documentFeatureWorker<T>(
 
 export async function documentArgFeatureWorker<T, K>(
 	context: DocumentServiceRuntimeContext,
+	feature: LanguageServicePluginFeature,
 	document: TextDocument,
 	arg: K,
 	isValidSourceMap: (sourceMap: EmbeddedDocumentSourceMap) => boolean,
@@ -48,9 +51,11 @@ export async function documentArgFeatureWorker<T, K>(
 
 			context.prepareLanguageServices(map.mappedDocument);
 
+			const plugins = await getPlugins(context, feature, map.mappedDocument, map);
+
 			for (const mappedArg of transformArg(arg, map)) {
 
-				for (const plugin of context.plugins) {
+				for (const plugin of plugins) {
 
 					const embeddedResult = await worker(plugin, map.mappedDocument, mappedArg);
 
@@ -76,7 +81,7 @@ export async function documentArgFeatureWorker<T, K>(
 
 		context.prepareLanguageServices(document);
 
-		for (const plugin of context.plugins) {
+		for (const plugin of await getPlugins(context, feature, document)) {
 
 			const result = await worker(plugin, document, arg);
 
@@ -100,6 +105,7 @@ export async function documentArgFeatureWorker<T, K>(
 
 export async function languageFeatureWorker<T, K>(
 	context: LanguageServiceRuntimeContext,
+	feature: LanguageServicePluginFeature,
 	uri: string,
 	arg: K,
 	transformArg: (arg: K, sourceMap: EmbeddedDocumentSourceMap) => Generator<K> | K[],
@@ -118,9 +124,11 @@ export async function languageFeatureWorker<T, K>(
 
 		await visitEmbedded(vueDocument, async map => {
 
+			const plugins = await getPlugins(context, feature, map.mappedDocument, map);
+
 			for (const mappedArg of transformArg(arg, map)) {
 
-				for (const plugin of context.plugins) {
+				for (const plugin of plugins) {
 
 					const embeddedResult = await worker(plugin, map.mappedDocument, mappedArg, map, vueDocument);
 
@@ -150,7 +158,7 @@ export async function languageFeatureWorker<T, K>(
 	}
 	else if (document && (results.length === 0 || !!combineResult)) {
 
-		for (const plugin of context.plugins) {
+		for (const plugin of await getPlugins(context, feature, document)) {
 
 			const embeddedResult = await worker(plugin, document, arg, undefined, undefined);
 
@@ -182,3 +190,85 @@ export async function languageFeatureWorker<T, K>(
 		return results[0];
 	}
 }
+
+/**
+ * Plugins that accept the document by their selector, without the feature disabled in the `volar.plugins` configuration.
+ */
+export async function getPlugins(
+	context: DocumentServiceRuntimeContext | LanguageServiceRuntimeContext,
+	feature: LanguageServicePluginFeature,
+	document?: TextDocument,
+	map?: EmbeddedDocumentSourceMap,
+) {
+
+	const config = await context.pluginContext.env.configurationHost?.getConfiguration<Record<string, Partial<Record<LanguageServicePluginFeature, boolean>> | undefined>>('volar.plugins');
+
+	return context.plugins.filter(plugin =>
+		config?.[plugin.id]?.[feature] !== false
+		&& (!document || !plugin.selector || matchSelector(plugin.selector, document, map))
+	);
+}
+
+function matchSelector(selector: LanguageServicePluginSelector, document: TextDocument, map: EmbeddedDocumentSourceMap | undefined) {
+
+	if (selector.languageIds && !selector.languageIds.includes(document.languageId))
+		return false;
+
+	if (selector.uriPatterns && !selector.uriPatterns.some(pattern => globToRegExp(pattern).test(document.uri)))
+		return false;
+
+	if (selector.embeddedFileKinds && map && !selector.embeddedFileKinds.includes(map.file.kind))
+		return false;
+
+	return true;
+}
+
+const globRegExps = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string) {
+
+	let regExp = globRegExps.get(pattern);
+
+	if (!regExp) {
+
+		let source = '';
+		let inGroup = false;
+
+		for (let i = 0; i < pattern.length; i++) {
+			const char = pattern[i];
+			if (pattern.startsWith('**/', i)) {
+				source += '(?:.*/)?';
+				i += 2;
+			}
+			else if (pattern.startsWith('**', i)) {
+				source += '.*';
+				i += 1;
+			}
+			else if (char === '*') {
+				source += '[^/]*';
+			}
+			else if (char === '?') {
+				source += '[^/]';
+			}
+			else if (char === '{') {
+				source += '(?:';
+				inGroup = true;
+			}
+			else if (char === '}' && inGroup) {
+				source += ')';
+				inGroup = false;
+			}
+			else if (char === ',' && inGroup) {
+				source += '|';
+			}
+			else {
+				source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+			}
+		}
+
+		regExp = new RegExp('^' + source + '$');
+		globRegExps.set(pattern, regExp);
+	}
+
+	return regExp;
+}
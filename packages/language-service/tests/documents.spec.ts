@@ -0,0 +1,47 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createVirtualFilesHost, EmbeddedFileKind, parseSourceFileDocuments, SourceMap } from '../out';
+import { createFooLanguageModule } from '../../language-core/tests/utils/fooLanguage';
+
+describe(`Test source file documents`, () => {
+
+	// `/a.foo.ts` has an embedded file `/a.FOO.ts`
+	const languageModule = createFooLanguageModule((fileName, text) => ({
+		text,
+		capabilities: {},
+		mappings: [],
+		embeddeds: [{
+			fileName: fileName.replace('.foo', '.FOO') + '.ts',
+			text,
+			kind: EmbeddedFileKind.TypeScriptHostFile,
+			capabilities: {},
+			mappings: [],
+			embeddeds: [],
+		}],
+	}));
+
+	it(`maps of virtual files with case sensitive file names`, () => {
+
+		const mapper = createVirtualFilesHost([languageModule], { useCaseSensitiveFileNames: true });
+		mapper.update('/a.foo', ts.ScriptSnapshot.fromString('a'));
+		const documents = parseSourceFileDocuments(mapper);
+
+		expect(documents.getMap('file:///a.foo.ts')?.file.fileName).toBe('/a.foo.ts');
+		expect(documents.getMap('file:///a.FOO.ts')?.file.fileName).toBe('/a.FOO.ts');
+	});
+
+	it(`map ranges by positions or offsets`, () => {
+
+		const sourceDocument = TextDocument.create('file:///a.foo', 'foo', 0, 'foo.bar');
+		const mappedDocument = TextDocument.create('file:///a.foo.ts', 'typescript', 0, '__ctx.foo.__get(bar)');
+		const map = new SourceMap(sourceDocument, mappedDocument, [
+			{ sourceRange: [0, 3], generatedRange: [6, 9], data: 'foo' },
+			{ sourceRange: [4, 7], generatedRange: [16, 19], data: 'bar' },
+		]);
+
+		expect(map.toSourceRange({ start: { line: 0, character: 6 }, end: { line: 0, character: 19 } }, undefined, 'clip')).toEqual({ start: { line: 0, character: 0 }, end: { line: 0, character: 3 } });
+		expect(map.toSourceRange(6, 19, undefined, 'clip')?.[0]).toEqual([0, 3]);
+		expect([...map.toGeneratedRanges(0, 7, data => data === 'bar', 'clip')].map(mapped => mapped[0])).toEqual([[16, 19]]);
+	});
+});
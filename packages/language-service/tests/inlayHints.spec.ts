@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { URI } from 'vscode-uri';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { createEmbeddedLanguageServiceHost, createLanguageService, createLanguageServiceContext, LanguageServicePlugin } from '../out';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+
+describe(`Test inlay hints`, () => {
+
+	const prefix = '// generated\n';
+	const source = `foo(1);`;
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text: prefix + text,
+		capabilities: { inlayHint: true },
+		mappings: [mapSourceText(text, prefix, {})],
+	}));
+	const host = createTestHost(new Map([['/a.foo', source]]));
+	// the parameter hint of `1`, and the location of `foo` in the virtual file
+	const virtualUri = 'file:///a.foo.ts';
+	const hintPosition = { line: 1, character: 4 };
+	const fooRange = { start: { line: 1, character: 0 }, end: { line: 1, character: 3 } };
+	const plugin: LanguageServicePlugin = {
+		id: 'test',
+		inlayHints: {
+			on(document) {
+				if (document.uri !== virtualUri)
+					return;
+				return [{
+					position: hintPosition,
+					label: [{ value: 'x:' }],
+					textEdits: [{ range: { start: hintPosition, end: hintPosition }, newText: 'x: ' }],
+					data: 'plugin data',
+				}];
+			},
+			resolve(inlayHint) {
+				return {
+					...inlayHint,
+					label: [{ value: 'x:', location: { uri: virtualUri, range: fooRange } }],
+					tooltip: inlayHint.data,
+				};
+			},
+		},
+	};
+	const context = createLanguageServiceContext({
+		host,
+		context: createEmbeddedLanguageServiceHost(host, [languageModule]),
+		getPlugins: () => [plugin],
+		env: { rootUri: URI.file('/') },
+		documentRegistry: undefined,
+	});
+	const languageService = createLanguageService(context);
+	const range = { start: { line: 0, character: 0 }, end: { line: 0, character: source.length } };
+
+	it(`map position and text edits`, async () => {
+
+		const inlayHints = (await languageService.getInlayHints('file:///a.foo', range))!;
+
+		expect(inlayHints.map(({ data, ...inlayHint }) => inlayHint)).toEqual([{
+			position: { line: 0, character: 4 },
+			label: [{ value: 'x:' }],
+			textEdits: [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 4 } }, newText: 'x: ' }],
+		}]);
+	});
+
+	it(`resolve with the original item of the plugin`, async () => {
+
+		const [inlayHint] = (await languageService.getInlayHints('file:///a.foo', range))!;
+		const resolved: vscode.InlayHint = await languageService.doInlayHintResolve(inlayHint);
+
+		expect(resolved.position).toEqual({ line: 0, character: 4 });
+		expect(resolved.tooltip).toBe('plugin data');
+		expect(resolved.label).toEqual([{
+			value: 'x:',
+			location: {
+				uri: 'file:///a.foo',
+				range: { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } },
+			},
+		}]);
+		expect(resolved.data).toEqual(inlayHint.data);
+	});
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { URI } from 'vscode-uri';
+import { ConfigurationHost, createEmbeddedLanguageServiceHost, createLanguageService, createLanguageServiceContext, ExecuteCommandContext, executePluginCommand, LanguageServicePlugin } from '../out';
+import { createTestHost } from '../../language-core/tests/utils/fooLanguage';
+
+describe(`Test plugins`, () => {
+
+	const source = `foo`;
+	const host = createTestHost(new Map([['/a.ts', source]]));
+
+	function createPlugin(id: string): LanguageServicePlugin {
+		return {
+			id,
+			complete: {
+				on() {
+					return {
+						isIncomplete: false,
+						items: [{ label: id }],
+					};
+				},
+				resolve(item) {
+					return {
+						...item,
+						detail: 'resolved by ' + id,
+					};
+				},
+			},
+		};
+	}
+
+	function createContext(plugins: LanguageServicePlugin[], configurationHost?: ConfigurationHost, warnings: string[] = []) {
+		return createLanguageServiceContext({
+			host,
+			context: createEmbeddedLanguageServiceHost(host, []),
+			getPlugins: () => plugins,
+			env: { rootUri: URI.file('/'), configurationHost, logger: { warn: message => warnings.push(message) } },
+			documentRegistry: undefined,
+		});
+	}
+
+	it(`exclude plugins with duplicate or missing ids`, () => {
+
+		const warnings: string[] = [];
+		const plugins = [createPlugin('foo'), createPlugin('foo'), createPlugin('bar'), createPlugin(undefined as any)];
+		const context = createContext(plugins, undefined, warnings);
+
+		expect(context.plugins).toEqual(plugins);
+		expect(context.getPluginById('foo')).toBeUndefined();
+		expect(context.getPluginById('bar')).toBe(plugins[2]);
+		expect(context.getPluginById('undefined')).toBeUndefined();
+		expect(warnings.length).toBe(2);
+	});
+
+	it(`don't resolve items of plugins with duplicate ids`, async () => {
+
+		const languageService = createLanguageService(createContext([createPlugin('foo'), createPlugin('foo')]));
+		const list = await languageService.doComplete('file:///a.ts', { line: 0, character: 0 });
+
+		for (const item of list!.items) {
+			expect(await languageService.doCompletionResolve(item)).toBe(item);
+		}
+	});
+
+	it(`resolve with the plugin of the same id after plugins changed`, async () => {
+
+		const plugin = createPlugin('foo');
+		const list = await createLanguageService(createContext([plugin])).doComplete('file:///a.ts', { line: 0, character: 0 });
+		const item = list!.items.find(item => item.label === 'foo')!;
+
+		// a plugin is added at the front, e.g. volar.config.js reloaded
+		const reloaded = createLanguageService(createContext([createPlugin('bar'), createPlugin('foo')]));
+		expect((await reloaded.doCompletionResolve(item)).detail).toBe('resolved by foo');
+
+		// the plugin is removed
+		const removed = createLanguageService(createContext([createPlugin('bar')]));
+		expect(await removed.doCompletionResolve(item)).toBe(item);
+	});
+
+	function createHoverPlugin(id: string, selector?: LanguageServicePlugin['selector']): LanguageServicePlugin {
+		return {
+			id,
+			selector,
+			doHover() {
+				return { contents: id };
+			},
+		};
+	}
+
+	it(`skip plugins that don't match the document`, async () => {
+
+		const languageService = createLanguageService(createContext([
+			createHoverPlugin('any'),
+			createHoverPlugin('typescript', { languageIds: ['typescript'] }),
+			createHoverPlugin('javascript', { languageIds: ['javascript'] }),
+			createHoverPlugin('ts-files', { uriPatterns: ['**/*.{ts,tsx}'] }),
+			createHoverPlugin('vue-files', { uriPatterns: ['**/*.vue'] }),
+		]));
+		const hover = await languageService.doHover('file:///a.ts', { line: 0, character: 0 });
+
+		expect(hover?.contents).toEqual(['any', 'typescript', 'ts-files']);
+	});
+
+	it(`disable plugin features by configuration`, async () => {
+
+		const configurationHost: ConfigurationHost = {
+			async getConfiguration<T>(section: string) {
+				if (section === 'volar.plugins') {
+					return { foo: { doHover: false } } as T;
+				}
+			},
+			onDidChangeConfiguration() { },
+		};
+		const plugin: LanguageServicePlugin = {
+			...createPlugin('foo'),
+			...createHoverPlugin('foo'),
+		};
+		const languageService = createLanguageService(createContext([plugin, createHoverPlugin('bar')], configurationHost));
+
+		expect((await languageService.doHover('file:///a.ts', { line: 0, character: 0 }))?.contents).toEqual(['bar']);
+		expect((await languageService.doComplete('file:///a.ts', { line: 0, character: 0 }))?.items.map(item => item.label)).toContain('foo');
+	});
+
+	it(`don't execute commands of disabled plugins`, async () => {
+
+		const configurationHost: ConfigurationHost = {
+			async getConfiguration<T>(section: string) {
+				if (section === 'volar.plugins') {
+					return { foo: { doExecuteCommand: false } } as T;
+				}
+			},
+			onDidChangeConfiguration() { },
+		};
+		const executed: string[] = [];
+		const createCommandPlugin = (id: string): LanguageServicePlugin => ({
+			id,
+			doExecuteCommand() {
+				executed.push(id);
+			},
+		});
+		const languageService = createLanguageService(createContext([createCommandPlugin('foo'), createCommandPlugin('bar')], configurationHost));
+		const command = { title: '', command: 'test' };
+		const executeCommandContext = {} as ExecuteCommandContext;
+
+		await languageService.doExecuteCommand(executePluginCommand, ['file:///a.ts', undefined, command], executeCommandContext);
+		await languageService.doExecuteCommand(executePluginCommand, ['file:///a.ts', 'foo', command], executeCommandContext);
+
+		expect(executed).toEqual(['bar']);
+	});
+});
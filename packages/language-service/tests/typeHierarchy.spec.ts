@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { URI } from 'vscode-uri';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { createEmbeddedLanguageServiceHost, createLanguageService, createLanguageServiceContext, LanguageServicePlugin } from '../out';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+
+describe(`Test type hierarchy`, () => {
+
+	const prefix = '// generated\n';
+	const source = `class A { }\nclass B extends A { }`;
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text: prefix + text,
+		capabilities: {},
+		mappings: [mapSourceText(text, prefix, { references: true })],
+	}));
+	const host = createTestHost(new Map([['/a.foo', source]]));
+	// items in the virtual file
+	const virtualUri = 'file:///a.foo.ts';
+	const createItem = (name: string, line: number, character: number): vscode.TypeHierarchyItem => ({
+		name,
+		kind: 5, // SymbolKind.Class
+		uri: virtualUri,
+		range: { start: { line, character: 0 }, end: { line, character: character + name.length + 4 } },
+		selectionRange: { start: { line, character }, end: { line, character: character + name.length } },
+		data: name,
+	});
+	const itemA = createItem('A', 1, 6);
+	const itemB = createItem('B', 2, 6);
+	const plugin: LanguageServicePlugin = {
+		id: 'test',
+		typeHierarchy: {
+			prepare(document, position) {
+				if (document.uri === virtualUri && position.line === 1) {
+					return [itemA];
+				}
+			},
+			supertypes(item) {
+				return item.data === 'B' ? [itemA] : [];
+			},
+			subtypes(item) {
+				return item.data === 'A' ? [itemB] : [];
+			},
+		},
+	};
+	const context = createLanguageServiceContext({
+		host,
+		context: createEmbeddedLanguageServiceHost(host, [languageModule]),
+		getPlugins: () => [plugin],
+		env: { rootUri: URI.file('/') },
+		documentRegistry: undefined,
+	});
+	const languageService = createLanguageService(context);
+	const toLocation = (item: vscode.TypeHierarchyItem) => [item.name, item.uri, item.selectionRange.start.line, item.selectionRange.start.character];
+
+	it(`prepare, subtypes and supertypes`, async () => {
+
+		const items = (await languageService.typeHierarchy.doPrepare('file:///a.foo', { line: 0, character: 6 }))!;
+
+		expect(items.map(toLocation)).toEqual([['A', 'file:///a.foo', 0, 6]]);
+
+		const subtypes = await languageService.typeHierarchy.getSubtypes(items[0]);
+
+		expect(subtypes.map(toLocation)).toEqual([['B', 'file:///a.foo', 1, 6]]);
+
+		// items of subtypes can be expanded again
+		const supertypes = await languageService.typeHierarchy.getSupertypes(subtypes[0]);
+
+		expect(supertypes.map(toLocation)).toEqual([['A', 'file:///a.foo', 0, 6]]);
+	});
+});
@@ -1,6 +1,8 @@
 import { SegmentWithData, SegmentWithoutData } from 'muggle-string';
+import { IntervalTree } from './intervalTree';
 
 export * from 'muggle-string';
+export * from './sourceMapV3';
 
 export interface Mapping<T = any> {
 	source?: string;
@@ -9,77 +11,211 @@ export interface Mapping<T = any> {
 	data: T;
 };
 
+/**
+ * How to handle a range that only partially overlaps the mapped ranges.
+ * - `clip`: yield the part of the range inside each overlapping mapping
+ * - `expand`: move unmapped range ends to the nearest mapped boundary inside the range
+ * - `drop`: yield nothing unless both range ends are mapped
+ */
+export type OverlapPolicy = 'clip' | 'expand' | 'drop';
+
+/**
+ * Range `[start, end]` of a text that is replaced with a text of `end - start + delta` length.
+ */
+export interface TextChange {
+	start: number;
+	end: number;
+	delta: number;
+}
+
+interface IndexEntry<Data> {
+	id: number;
+	mapping: Mapping<Data>;
+}
+
 export class SourceMapBase<Data = undefined> {
 
-	private _memo: {
-		sourceRange: {
-			offset: number;
-			mappings: Set<Mapping<Data>>;
-		}[];
-		generatedRange: {
-			offset: number;
-			mappings: Set<Mapping<Data>>;
-		}[];
+	private _index: {
+		sourceRange: IntervalTree<IndexEntry<Data>>;
+		generatedRange: IntervalTree<IndexEntry<Data>>;
 	} | undefined;
+	private _entries = new Map<Mapping<Data>, IndexEntry<Data>>();
+	private _nextId = 0;
+
+	private get index() {
+		if (!this._index) {
 
-	private get memo() {
-		if (!this._memo) {
+			// ids follow the order of mappings
+			this._entries.clear();
+			this._nextId = 0;
 
-			const self = this;
-			this._memo = {
-				sourceRange: createMemo('sourceRange'),
-				generatedRange: createMemo('generatedRange'),
+			const entries = [...new Set(this.mappings)].map(mapping => this.getEntry(mapping));
+
+			this._index = {
+				sourceRange: new IntervalTree(entries.map(entry => ({ start: entry.mapping.sourceRange[0], end: entry.mapping.sourceRange[1], id: entry.id, value: entry }))),
+				generatedRange: new IntervalTree(entries.map(entry => ({ start: entry.mapping.generatedRange[0], end: entry.mapping.generatedRange[1], id: entry.id, value: entry }))),
 			};
+		}
+		return this._index;
+	}
+
+	constructor(public readonly mappings: Mapping<Data>[]) {
+	}
+
+	/**
+	 * @param before the mapping to insert `mapping` before, `mapping` is appended if it's omitted or not found
+	 */
+	public addMapping(mapping: Mapping<Data>, before?: Mapping<Data>) {
+		const index = before ? this.mappings.indexOf(before) : -1;
+		if (index === -1) {
+			this.mappings.push(mapping);
+		}
+		else {
+			this.mappings.splice(index, 0, mapping);
+		}
+		if (this._index) {
+			const entry = index === -1 ? this.getEntry(mapping) : this.getEntryBetween(mapping, index);
+			if (!entry) {
+				// no id left between the neighbors, rebuild the index on next use
+				this._index = undefined;
+				return;
+			}
+			this.insertEntry(entry);
+		}
+	}
+
+	public removeMapping(mapping: Mapping<Data>) {
+		const index = this.mappings.indexOf(mapping);
+		if (index === -1)
+			return false;
+		this.mappings.splice(index, 1);
+		if (this._index) {
+			this.removeEntry(this.getEntry(mapping));
+		}
+		this._entries.delete(mapping);
+		return true;
+	}
 
-			function createMemo(key: 'sourceRange' | 'generatedRange') {
+	/**
+	 * Map of `mappings` regenerated after the source and the generated texts are changed.
+	 * Mappings that are the same after shifting their ranges by the changes are kept in the index, the rest are replaced,
+	 * the index is rebuilt instead if more than `maxChangedMappings` mappings are changed.
+	 * The index is moved to the new map, this map rebuilds its own index on next use.
+	 */
+	public update(mappings: Mapping<Data>[], sourceChange: TextChange, generatedChange: TextChange, maxChangedMappings = 100) {
 
-				const offsets = new Set<number>();
+		const map = new SourceMapBase(mappings);
+		const oldMappings = this.mappings;
+		const index = this._index;
 
-				for (const mapping of self.mappings) {
-					offsets.add(mapping[key][0]);
-					offsets.add(mapping[key][1]);
-				}
+		if (!index)
+			return map;
+
+		let start = 0;
+		let oldEnd = oldMappings.length;
+		let newEnd = mappings.length;
 
-				const arr: {
-					offset: number,
-					mappings: Set<Mapping<Data>>,
-				}[] = [...offsets].sort((a, b) => a - b).map(offset => ({ offset, mappings: new Set() }));
+		while (start < oldEnd && start < newEnd && isSameShiftedMapping(oldMappings[start], mappings[start], sourceChange, generatedChange)) {
+			start++;
+		}
+		while (oldEnd > start && newEnd > start && isSameShiftedMapping(oldMappings[oldEnd - 1], mappings[newEnd - 1], sourceChange, generatedChange)) {
+			oldEnd--;
+			newEnd--;
+		}
 
-				for (const mapping of self.mappings) {
+		if ((oldEnd - start) + (newEnd - start) > maxChangedMappings)
+			return map;
 
-					const startIndex = binarySearch(mapping[key][0])!;
-					const endIndex = binarySearch(mapping[key][1])!;
+		// the index has one entry for each mapping object
+		if (new Set(oldMappings).size !== oldMappings.length || new Set(mappings).size !== mappings.length)
+			return map;
 
-					for (let i = startIndex; i <= endIndex; i++) {
-						arr[i].mappings.add(mapping);
-					}
-				}
+		// move the index to the new map
+		map._index = index;
+		map._entries = this._entries;
+		map._nextId = this._nextId;
+		this._index = undefined;
+		this._entries = new Map();
+		this._nextId = 0;
+
+		for (const mapping of oldMappings.slice(start, oldEnd)) {
+			map.removeEntry(map._entries.get(mapping)!);
+			map._entries.delete(mapping);
+		}
+
+		index.sourceRange.shift(sourceChange.end, sourceChange.delta);
+		index.generatedRange.shift(generatedChange.end, generatedChange.delta);
+
+		for (let i = 0; i < start; i++) {
+			map.replaceEntryMapping(oldMappings[i], mappings[i]);
+		}
+		for (let i = 0; i < mappings.length - newEnd; i++) {
+			map.replaceEntryMapping(oldMappings[oldEnd + i], mappings[newEnd + i]);
+		}
+
+		const prevId = start > 0 ? map._entries.get(mappings[start - 1])!.id : undefined;
+		const nextId = newEnd < mappings.length ? map._entries.get(mappings[newEnd])!.id : undefined;
+		const added = mappings.slice(start, newEnd);
 
-				return arr;
-
-				function binarySearch(start: number) {
-					let low = 0;
-					let high = arr.length - 1;
-					while (low <= high) {
-						const mid = Math.floor((low + high) / 2);
-						const midValue = arr[mid];
-						if (midValue.offset < start) {
-							low = mid + 1;
-						}
-						else if (midValue.offset > start) {
-							high = mid - 1;
-						}
-						else {
-							return mid;
-						}
-					}
+		for (let i = 0; i < added.length; i++) {
+			let id: number;
+			if (nextId === undefined) {
+				id = map._nextId++;
+			}
+			else {
+				const from = prevId ?? nextId - 1;
+				id = from + (nextId - from) * (i + 1) / (added.length + 1);
+				if (!(id > from && id < nextId) || (i > 0 && id <= map._entries.get(added[i - 1])!.id)) {
+					// no id left between the neighbors
+					map._index = undefined;
+					return map;
 				}
 			}
+			const entry: IndexEntry<Data> = { id, mapping: added[i] };
+			map._entries.set(added[i], entry);
+			map.insertEntry(entry);
 		}
-		return this._memo;
+
+		return map;
 	}
 
-	constructor(public readonly mappings: Mapping<Data>[]) {
+	/**
+	 * Compose `a` (source -> intermediate) and `b` (intermediate -> generated) into a single map (source -> generated).
+	 */
+	public static compose<A, B, C>(
+		a: SourceMapBase<A>,
+		b: SourceMapBase<B>,
+		combineData: (a: A, b: B) => C,
+	) {
+
+		const mappings: Mapping<C>[] = [];
+
+		for (const mappingB of b.mappings) {
+
+			for (const mappingA of a.overlaps(mappingB.sourceRange, 'generatedRange')) {
+
+				const start = Math.max(mappingA.generatedRange[0], mappingB.sourceRange[0]);
+				const end = Math.min(mappingA.generatedRange[1], mappingB.sourceRange[1]);
+
+				// ranges only touch each other
+				if (
+					start === end
+					&& mappingA.generatedRange[0] !== mappingA.generatedRange[1]
+					&& mappingB.sourceRange[0] !== mappingB.sourceRange[1]
+				) {
+					continue;
+				}
+
+				mappings.push({
+					source: mappingA.source,
+					sourceRange: translateRange(start, end, mappingA.generatedRange, mappingA.sourceRange),
+					generatedRange: translateRange(start, end, mappingB.sourceRange, mappingB.generatedRange),
+					data: combineData(mappingA.data, mappingB.data),
+				});
+			}
+		}
+
+		return new SourceMapBase(mappings);
 	}
 
 	public toSourceOffset(start: number, baseOnRight: boolean = false) {
@@ -102,36 +238,138 @@ export class SourceMapBase<Data = undefined> {
 		return this.matcing(start, 'sourceRange', 'generatedRange', baseOnRight);
 	}
 
-	public * matcing(startOffset: number, from: 'sourceRange' | 'generatedRange', to: 'sourceRange' | 'generatedRange', baseOnRight: boolean) {
+	public toSourceRange(start: number, end: number, filter: (data: Data) => boolean = () => true, policy: OverlapPolicy = 'drop') {
+		for (const mapped of this.toSourceRanges(start, end, filter, policy)) {
+			return mapped;
+		}
+	}
+
+	public toGeneratedRange(start: number, end: number, filter: (data: Data) => boolean = () => true, policy: OverlapPolicy = 'drop') {
+		for (const mapped of this.toGeneratedRanges(start, end, filter, policy)) {
+			return mapped;
+		}
+	}
+
+	public toSourceRanges(start: number, end: number, filter: (data: Data) => boolean = () => true, policy: OverlapPolicy = 'drop') {
+		return this.matchingRanges(start, end, 'generatedRange', 'sourceRange', policy, filter);
+	}
+
+	public toGeneratedRanges(start: number, end: number, filter: (data: Data) => boolean = () => true, policy: OverlapPolicy = 'drop') {
+		return this.matchingRanges(start, end, 'sourceRange', 'generatedRange', policy, filter);
+	}
+
+	public * matchingRanges(
+		start: number,
+		end: number,
+		from: 'sourceRange' | 'generatedRange',
+		to: 'sourceRange' | 'generatedRange',
+		policy: OverlapPolicy,
+		filter: (data: Data) => boolean,
+	) {
 
-		const memo = this.memo[from];
+		if (policy === 'clip') {
+			for (const mapping of this.overlaps([start, end], from)) {
+
+				if (!filter(mapping.data))
+					continue;
 
-		if (memo.length === 0)
+				const clipStart = Math.max(start, mapping[from][0]);
+				const clipEnd = Math.min(end, mapping[from][1]);
+
+				// ranges only touch each other
+				if (clipStart === clipEnd && start !== end && mapping[from][0] !== mapping[from][1])
+					continue;
+
+				yield [[
+					this.matchOffset(clipStart, mapping[from], mapping[to], false)!,
+					this.matchOffset(clipEnd, mapping[from], mapping[to], true)!,
+				] as [number, number], mapping, mapping] as const;
+			}
 			return;
+		}
 
-		const {
-			low: start,
-			high: end,
-		} = this.binarySearchMemo(memo, startOffset);
-		const skip = new Set<Mapping<Data>>();
+		if (policy === 'expand') {
 
-		for (let i = start; i <= end; i++) {
+			let startMapped = false;
+			let endMapped = false;
+			let nearestStart: number | undefined;
+			let nearestEnd: number | undefined;
 
-			for (const mapping of memo[i].mappings) {
+			for (const mapping of this.overlaps([start, end], from)) {
 
-				if (skip.has(mapping)) {
+				if (!filter(mapping.data))
 					continue;
-				}
-				skip.add(mapping);
 
-				const mapped = this.matchOffset(startOffset, mapping[from], mapping[to], baseOnRight);
-				if (mapped !== undefined) {
-					yield [mapped, mapping] as const;
-				}
+				startMapped ||= mapping[from][0] <= start && mapping[from][1] >= start;
+				endMapped ||= mapping[from][0] <= end && mapping[from][1] >= end;
+
+				if (mapping[from][0] >= start && (nearestStart === undefined || mapping[from][0] < nearestStart))
+					nearestStart = mapping[from][0];
+				if (mapping[from][1] <= end && (nearestEnd === undefined || mapping[from][1] > nearestEnd))
+					nearestEnd = mapping[from][1];
+			}
+
+			if (!startMapped) {
+				if (nearestStart === undefined)
+					return;
+				start = nearestStart;
+			}
+			if (!endMapped) {
+				if (nearestEnd === undefined)
+					return;
+				end = nearestEnd;
+			}
+			if (start > end)
+				return;
+		}
+
+		// prefer start and end from the same mapping
+		const failedLookUps: (readonly [number, Mapping<Data>])[] = [];
+
+		for (const mapped of this.matcing(start, from, to, false)) {
+
+			if (!filter(mapped[1].data))
+				continue;
+
+			const mappedEnd = this.matchOffset(end, mapped[1][from], mapped[1][to], true);
+			if (mappedEnd !== undefined) {
+				yield [[mapped[0], mappedEnd] as [number, number], mapped[1], mapped[1]] as const;
+			}
+			else {
+				failedLookUps.push(mapped);
+			}
+		}
+
+		for (const failedLookUp of failedLookUps) {
+			for (const mapped of this.matcing(end, from, to, true)) {
+
+				if (!filter(mapped[1].data))
+					continue;
+
+				// start and end must stay in the same source and in order
+				if (mapped[1].source !== failedLookUp[1].source || mapped[0] < failedLookUp[0])
+					continue;
+
+				yield [[failedLookUp[0], mapped[0]] as [number, number], failedLookUp[1], mapped[1]] as const;
+			}
+		}
+	}
+
+	public * matcing(startOffset: number, from: 'sourceRange' | 'generatedRange', to: 'sourceRange' | 'generatedRange', baseOnRight: boolean) {
+		for (const mapping of this.search(startOffset, startOffset, from)) {
+			const mapped = this.matchOffset(startOffset, mapping[from], mapping[to], baseOnRight);
+			if (mapped !== undefined) {
+				yield [mapped, mapping] as const;
 			}
 		}
 	}
 
+	public * overlaps(range: [number, number], key: 'sourceRange' | 'generatedRange') {
+		for (const mapping of this.search(range[0], range[1], key)) {
+			yield mapping;
+		}
+	}
+
 	public matchOffset(start: number, mappedFromRange: [number, number], mappedToRange: [number, number], baseOnRight: boolean): number | undefined {
 		if (start >= mappedFromRange[0] && start <= mappedFromRange[1]) {
 			let offset = mappedToRange[0] + start - mappedFromRange[0];
@@ -142,29 +380,97 @@ export class SourceMapBase<Data = undefined> {
 		}
 	}
 
-	private binarySearchMemo(array: typeof this.memo['sourceRange'], start: number) {
-		let low = 0;
-		let high = array.length - 1;
-		while (low <= high) {
-			const mid = Math.floor((low + high) / 2);
-			const midValue = array[mid];
-			if (midValue.offset < start) {
-				low = mid + 1;
-			}
-			else if (midValue.offset > start) {
-				high = mid - 1;
-			}
-			else {
-				low = mid;
-				high = mid;
-				break;
-			}
+	private search(start: number, end: number, key: 'sourceRange' | 'generatedRange') {
+		// keep results in the order of mappings
+		return this.index[key].search(start, end)
+			.sort((a, b) => a.id - b.id)
+			.map(node => node.value.mapping);
+	}
+
+	private insertEntry(entry: IndexEntry<Data>) {
+		this._index!.sourceRange.insert(entry.mapping.sourceRange[0], entry.mapping.sourceRange[1], entry.id, entry);
+		this._index!.generatedRange.insert(entry.mapping.generatedRange[0], entry.mapping.generatedRange[1], entry.id, entry);
+	}
+
+	private removeEntry(entry: IndexEntry<Data>) {
+		this._index!.sourceRange.remove(entry.mapping.sourceRange[0], entry.id);
+		this._index!.generatedRange.remove(entry.mapping.generatedRange[0], entry.id);
+	}
+
+	private replaceEntryMapping(oldMapping: Mapping<Data>, newMapping: Mapping<Data>) {
+		const entry = this._entries.get(oldMapping)!;
+		this._entries.delete(oldMapping);
+		entry.mapping = newMapping;
+		this._entries.set(newMapping, entry);
+	}
+
+	private getEntryBetween(mapping: Mapping<Data>, index: number) {
+		const next = this._entries.get(this.mappings[index + 1])!.id;
+		const prev = index > 0 ? this._entries.get(this.mappings[index - 1])!.id : next - 1;
+		const id = (prev + next) / 2;
+		if (id > prev && id < next) {
+			const entry: IndexEntry<Data> = { id, mapping };
+			this._entries.set(mapping, entry);
+			return entry;
 		}
-		return {
-			low: Math.max(Math.min(low, high, array.length - 1), 0),
-			high: Math.min(Math.max(low, high, 0), array.length - 1),
-		};
 	}
+
+	private getEntry(mapping: Mapping<Data>) {
+		let entry = this._entries.get(mapping);
+		if (!entry) {
+			entry = { id: this._nextId++, mapping };
+			this._entries.set(mapping, entry);
+		}
+		return entry;
+	}
+}
+
+function isSameShiftedMapping<Data>(oldMapping: Mapping<Data>, newMapping: Mapping<Data>, sourceChange: TextChange, generatedChange: TextChange) {
+	return oldMapping.source === newMapping.source
+		&& isSameShiftedRange(oldMapping.sourceRange, newMapping.sourceRange, sourceChange)
+		&& isSameShiftedRange(oldMapping.generatedRange, newMapping.generatedRange, generatedChange)
+		&& isSameData(oldMapping.data, newMapping.data);
+}
+
+function isSameShiftedRange(oldRange: [number, number], newRange: [number, number], change: TextChange) {
+	if (isChangedRange(oldRange, change))
+		return false;
+	const delta = isShiftedRange(oldRange, change) ? change.delta : 0;
+	return oldRange[0] + delta === newRange[0] && oldRange[1] + delta === newRange[1];
+}
+
+/**
+ * Ranges before the change are kept, ranges after the change are shifted, the rest overlap the change.
+ */
+function isChangedRange(range: [number, number], change: TextChange) {
+	return !(range[0] < change.start && range[1] <= change.start) && !isShiftedRange(range, change);
+}
+
+function isShiftedRange(range: [number, number], change: TextChange) {
+	return range[0] >= change.end && !(range[0] < change.start && range[1] <= change.start);
+}
+
+function isSameData(a: any, b: any) {
+	if (a === b)
+		return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || !a || !b)
+		return false;
+	const aKeys = Object.keys(a);
+	return aKeys.length === Object.keys(b).length && aKeys.every(key => a[key] === b[key]);
+}
+
+function translateRange(start: number, end: number, fromRange: [number, number], toRange: [number, number]): [number, number] {
+	if (fromRange[1] - fromRange[0] === toRange[1] - toRange[0]) {
+		return [
+			toRange[0] + start - fromRange[0],
+			toRange[0] + end - fromRange[0],
+		];
+	}
+	// not verbatim, only the boundaries of the range can be matched
+	return [
+		start === fromRange[1] ? toRange[1] : toRange[0],
+		end === fromRange[0] ? toRange[0] : toRange[1],
+	];
 }
 
 export function buildMappings<T>(chunks: SegmentWithoutData[] | SegmentWithData<T>[]) {
@@ -0,0 +1,211 @@
+interface Node<T> {
+	start: number;
+	end: number;
+	id: number;
+	value: T;
+	priority: number;
+	maxEnd: number;
+	// offset to add to the intervals of the children, applied when they are visited
+	shift: number;
+	left: Node<T> | undefined;
+	right: Node<T> | undefined;
+}
+
+/**
+ * Treap of closed intervals ordered by `[start, id]`, each node keeps the max end of its subtree.
+ * Intervals after an offset can be shifted in O(log n) for text edits.
+ */
+export class IntervalTree<T> {
+
+	private root: Node<T> | undefined;
+
+	constructor(intervals: { start: number, end: number, id: number, value: T; }[] = []) {
+
+		const nodes = intervals
+			.map(interval => createNode(interval.start, interval.end, interval.id, interval.value))
+			.sort(compareNodes);
+
+		// build the treap from sorted nodes in O(n)
+		const stack: Node<T>[] = [];
+
+		for (const node of nodes) {
+			let last: Node<T> | undefined;
+			while (stack.length && stack[stack.length - 1].priority < node.priority) {
+				last = stack.pop()!;
+				update(last);
+			}
+			node.left = last;
+			if (stack.length) {
+				stack[stack.length - 1].right = node;
+			}
+			stack.push(node);
+		}
+		while (stack.length > 1) {
+			update(stack.pop()!);
+		}
+		if (stack.length) {
+			update(stack[0]);
+		}
+
+		this.root = stack[0];
+	}
+
+	public insert(start: number, end: number, id: number, value: T) {
+		const node = createNode(start, end, id, value);
+		const [left, right] = split(this.root, node);
+		this.root = merge(merge(left, node), right);
+	}
+
+	/**
+	 * Move the intervals that start at or after `offset` by `delta`.
+	 * They must still start after the other intervals once moved.
+	 */
+	public shift(offset: number, delta: number) {
+		if (delta === 0)
+			return;
+		const [left, right] = split(this.root, { start: offset, id: -Infinity });
+		if (right) {
+			applyShift(right, delta);
+		}
+		this.root = merge(left, right);
+	}
+
+	public remove(start: number, id: number) {
+		let removed = false;
+		this.root = remove(this.root);
+		return removed;
+
+		function remove(node: Node<T> | undefined): Node<T> | undefined {
+			if (!node)
+				return;
+			pushShift(node);
+			if (node.start === start && node.id === id) {
+				removed = true;
+				return merge(node.left, node.right);
+			}
+			if (start < node.start || (start === node.start && id < node.id)) {
+				node.left = remove(node.left);
+			}
+			else {
+				node.right = remove(node.right);
+			}
+			update(node);
+			return node;
+		}
+	}
+
+	/**
+	 * Find all intervals that overlap `[start, end]`, boundaries included.
+	 */
+	public search(start: number, end: number) {
+
+		const result: { id: number, value: T; }[] = [];
+		const stack: Node<T>[] = [];
+
+		if (this.root) {
+			stack.push(this.root);
+		}
+
+		while (stack.length) {
+
+			const node = stack.pop()!;
+
+			if (node.maxEnd < start)
+				continue;
+
+			pushShift(node);
+
+			if (node.left) {
+				stack.push(node.left);
+			}
+			if (node.start <= end) {
+				if (node.end >= start) {
+					result.push(node);
+				}
+				if (node.right) {
+					stack.push(node.right);
+				}
+			}
+		}
+
+		return result;
+	}
+}
+
+function createNode<T>(start: number, end: number, id: number, value: T): Node<T> {
+	return {
+		start,
+		end,
+		id,
+		value,
+		priority: Math.random(),
+		maxEnd: end,
+		shift: 0,
+		left: undefined,
+		right: undefined,
+	};
+}
+
+function compareNodes(a: Pick<Node<any>, 'start' | 'id'>, b: Pick<Node<any>, 'start' | 'id'>) {
+	return a.start - b.start || a.id - b.id;
+}
+
+function applyShift(node: Node<any>, delta: number) {
+	node.start += delta;
+	node.end += delta;
+	node.maxEnd += delta;
+	node.shift += delta;
+}
+
+function pushShift(node: Node<any>) {
+	if (node.shift) {
+		if (node.left) {
+			applyShift(node.left, node.shift);
+		}
+		if (node.right) {
+			applyShift(node.right, node.shift);
+		}
+		node.shift = 0;
+	}
+}
+
+function update(node: Node<any>) {
+	node.maxEnd = Math.max(node.end, node.left?.maxEnd ?? -Infinity, node.right?.maxEnd ?? -Infinity);
+}
+
+function split<T>(node: Node<T> | undefined, key: Pick<Node<T>, 'start' | 'id'>): [Node<T> | undefined, Node<T> | undefined] {
+	if (!node)
+		return [undefined, undefined];
+	pushShift(node);
+	if (compareNodes(node, key) < 0) {
+		const [left, right] = split(node.right, key);
+		node.right = left;
+		update(node);
+		return [node, right];
+	}
+	else {
+		const [left, right] = split(node.left, key);
+		node.left = right;
+		update(node);
+		return [left, node];
+	}
+}
+
+function merge<T>(a: Node<T> | undefined, b: Node<T> | undefined): Node<T> | undefined {
+	if (!a)
+		return b;
+	if (!b)
+		return a;
+	if (a.priority > b.priority) {
+		pushShift(a);
+		a.right = merge(a.right, b);
+		update(a);
+		return a;
+	}
+	else {
+		pushShift(b);
+		b.left = merge(a, b.left);
+		update(b);
+		return b;
+	}
+}
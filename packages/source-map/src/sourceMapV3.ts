@@ -0,0 +1,206 @@
+import { decode, encode, SourceMapMappings, SourceMapSegment } from '@jridgewell/sourcemap-codec';
+import type { Mapping } from './index';
+
+export interface SourceMapV3 {
+	version: 3;
+	file?: string;
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	names: string[];
+	mappings: string;
+}
+
+export function fromSourceMapV3<Data>(
+	sourceMap: Pick<SourceMapV3, 'sources' | 'sourcesContent' | 'mappings'>,
+	generatedText: string,
+	data: Data,
+	getSourceText: (source: string) => string | undefined = () => undefined,
+) {
+
+	const mappings: Mapping<Data>[] = [];
+	const generatedLines = getLineOffsets(generatedText);
+	const sourceTexts = sourceMap.sources.map((source, i) => sourceMap.sourcesContent?.[i] ?? getSourceText(source));
+	const sourceLines = sourceTexts.map(text => text !== undefined ? getLineOffsets(text) : undefined);
+	const decoded = decode(sourceMap.mappings);
+
+	for (let line = 0; line < decoded.length && line < generatedLines.length; line++) {
+
+		const segments = [...decoded[line]].sort((a, b) => a[0] - b[0]);
+		const lineStart = generatedLines[line];
+		const lineEnd = getLineEnd(generatedText, generatedLines, line);
+
+		for (let i = 0; i < segments.length; i++) {
+
+			const segment = segments[i];
+			if (segment.length === 1)
+				continue;
+
+			const source = sourceMap.sources[segment[1]];
+			const sourceText = sourceTexts[segment[1]];
+			const sourceLine = sourceLines[segment[1]]?.[segment[2]];
+			if (sourceText === undefined || sourceLine === undefined)
+				continue;
+
+			const generatedStart = Math.min(lineStart + segment[0], lineEnd);
+			const generatedEnd = i + 1 < segments.length ? Math.min(lineStart + segments[i + 1][0], lineEnd) : lineEnd;
+			const sourceStart = sourceLine + segment[3];
+
+			// v3 segments have no length, only keep the part that is verbatim on both sides
+			let length = 0;
+			while (
+				generatedStart + length < generatedEnd
+				&& sourceStart + length < sourceText.length
+				&& generatedText[generatedStart + length] === sourceText[sourceStart + length]
+			) {
+				length++;
+			}
+
+			if (length === 0)
+				continue;
+
+			const lastMapping = mappings.length ? mappings[mappings.length - 1] : undefined;
+			if (
+				lastMapping
+				&& lastMapping.source === source
+				&& lastMapping.generatedRange[1] === generatedStart
+				&& lastMapping.sourceRange[1] === sourceStart
+			) {
+				lastMapping.generatedRange[1] += length;
+				lastMapping.sourceRange[1] += length;
+			}
+			else {
+				mappings.push({
+					source,
+					sourceRange: [sourceStart, sourceStart + length],
+					generatedRange: [generatedStart, generatedStart + length],
+					data,
+				});
+			}
+		}
+	}
+
+	return mappings;
+}
+
+export function toSourceMapV3(
+	mappings: Mapping<any>[],
+	generatedText: string,
+	sourceFileName: string,
+	getSourceText: (source: string) => string | undefined,
+	options: {
+		file?: string,
+		sourceRoot?: string,
+		includeSourcesContent?: boolean,
+	} = {},
+): SourceMapV3 {
+
+	const sources: string[] = [];
+	const sourcesContent: (string | null)[] = [];
+	const sourceLines: (number[] | undefined)[] = [];
+	const sourceIndexes = new Map<string, number>();
+	const generatedLines = getLineOffsets(generatedText);
+	const lines: Map<number, SourceMapSegment>[] = generatedLines.map(() => new Map());
+	const sortedMappings = [...mappings].sort((a, b) => a.generatedRange[0] - b.generatedRange[0]);
+
+	for (const mapping of sortedMappings) {
+
+		const source = mapping.source ?? sourceFileName;
+		const sourceIndex = getSourceIndex(source);
+		const lineOffsets = sourceLines[sourceIndex];
+		if (!lineOffsets)
+			continue;
+
+		const isVerbatim = mapping.sourceRange[1] - mapping.sourceRange[0] === mapping.generatedRange[1] - mapping.generatedRange[0];
+
+		addSegment(mapping.generatedRange[0], mapping.sourceRange[0]);
+
+		// continue the mapping on each generated line that it spans
+		if (isVerbatim) {
+			let line = offsetToLine(generatedLines, mapping.generatedRange[0]) + 1;
+			while (line < generatedLines.length && generatedLines[line] < mapping.generatedRange[1]) {
+				addSegment(generatedLines[line], mapping.sourceRange[0] + generatedLines[line] - mapping.generatedRange[0]);
+				line++;
+			}
+		}
+
+		// terminate the mapping unless another segment starts at the same position
+		const endLine = offsetToLine(generatedLines, mapping.generatedRange[1]);
+		const endColumn = mapping.generatedRange[1] - generatedLines[endLine];
+		if (mapping.generatedRange[1] > mapping.generatedRange[0] && !lines[endLine].has(endColumn)) {
+			lines[endLine].set(endColumn, [endColumn]);
+		}
+
+		function addSegment(generatedOffset: number, sourceOffset: number) {
+			const line = offsetToLine(generatedLines, generatedOffset);
+			const column = generatedOffset - generatedLines[line];
+			const segment = lines[line].get(column);
+			if (!segment || segment.length === 1) {
+				const sourceLine = offsetToLine(lineOffsets!, sourceOffset);
+				lines[line].set(column, [column, sourceIndex, sourceLine, sourceOffset - lineOffsets![sourceLine]]);
+			}
+		}
+	}
+
+	const decoded: SourceMapMappings = lines.map(segments => [...segments.values()].sort((a, b) => a[0] - b[0]));
+	const sourceMap: SourceMapV3 = {
+		version: 3,
+		file: options.file,
+		sourceRoot: options.sourceRoot,
+		sources,
+		names: [],
+		mappings: encode(decoded),
+	};
+
+	if (options.includeSourcesContent) {
+		sourceMap.sourcesContent = sourcesContent;
+	}
+
+	return sourceMap;
+
+	function getSourceIndex(source: string) {
+		let index = sourceIndexes.get(source);
+		if (index === undefined) {
+			const text = getSourceText(source);
+			index = sources.length;
+			sources.push(source);
+			sourcesContent.push(text ?? null);
+			sourceLines.push(text !== undefined ? getLineOffsets(text) : undefined);
+			sourceIndexes.set(source, index);
+		}
+		return index;
+	}
+}
+
+function getLineOffsets(text: string) {
+	const offsets = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') {
+			offsets.push(i + 1);
+		}
+	}
+	return offsets;
+}
+
+function getLineEnd(text: string, lineOffsets: number[], line: number) {
+	let end = line + 1 < lineOffsets.length ? lineOffsets[line + 1] - 1 : text.length;
+	if (end > lineOffsets[line] && text[end - 1] === '\r') {
+		end--;
+	}
+	return end;
+}
+
+function offsetToLine(lineOffsets: number[], offset: number) {
+	let low = 0;
+	let high = lineOffsets.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (lineOffsets[mid] <= offset) {
+			low = mid;
+		}
+		else {
+			high = mid - 1;
+		}
+	}
+	return low;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Mapping, SourceMapBase } from '../out';
+
+describe(`Test SourceMapBase.compose()`, () => {
+
+	function compose(a: Mapping<string>[], b: Mapping<string>[]) {
+		return SourceMapBase.compose(new SourceMapBase(a), new SourceMapBase(b), (a, b) => a + b).mappings;
+	}
+
+	it(`verbatim mappings`, () => {
+		expect(compose(
+			[{ sourceRange: [0, 3], generatedRange: [10, 13], data: 'a' }],
+			[{ sourceRange: [11, 13], generatedRange: [0, 2], data: 'b' }],
+		)).toEqual([
+			{ source: undefined, sourceRange: [1, 3], generatedRange: [0, 2], data: 'ab' },
+		]);
+	});
+
+	it(`non-verbatim mappings`, () => {
+		expect(compose(
+			[{ sourceRange: [0, 3], generatedRange: [10, 15], data: 'a' }],
+			[{ sourceRange: [12, 15], generatedRange: [0, 3], data: 'b' }],
+		)).toEqual([
+			{ source: undefined, sourceRange: [0, 3], generatedRange: [0, 3], data: 'ab' },
+		]);
+	});
+
+	it(`multiple hops`, () => {
+		expect(compose(
+			[
+				{ sourceRange: [0, 3], generatedRange: [10, 13], data: 'a' },
+				{ sourceRange: [5, 8], generatedRange: [13, 16], data: 'c' },
+			],
+			[{ sourceRange: [12, 14], generatedRange: [0, 2], data: 'b' }],
+		)).toEqual([
+			{ source: undefined, sourceRange: [2, 3], generatedRange: [0, 1], data: 'ab' },
+			{ source: undefined, sourceRange: [5, 6], generatedRange: [1, 2], data: 'cb' },
+		]);
+	});
+
+	it(`ranges only touch`, () => {
+		expect(compose(
+			[{ sourceRange: [0, 3], generatedRange: [10, 13], data: 'a' }],
+			[{ sourceRange: [13, 15], generatedRange: [0, 2], data: 'b' }],
+		)).toEqual([]);
+	});
+
+	it(`zero-length mappings`, () => {
+		expect(compose(
+			[{ sourceRange: [0, 3], generatedRange: [10, 13], data: 'a' }],
+			[{ sourceRange: [13, 13], generatedRange: [0, 0], data: 'b' }],
+		)).toEqual([
+			{ source: undefined, sourceRange: [3, 3], generatedRange: [0, 0], data: 'ab' },
+		]);
+	});
+});
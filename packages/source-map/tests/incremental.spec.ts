@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Mapping, SourceMapBase } from '../out';
+
+describe(`Test SourceMapBase incremental updates`, () => {
+
+	function createMappings(count: number) {
+		const mappings: Mapping<number>[] = [];
+		for (let i = 0; i < count; i++) {
+			const sourceStart = (i * 37) % 500;
+			const generatedStart = (i * 53) % 500;
+			const length = i % 7;
+			mappings.push({
+				sourceRange: [sourceStart, sourceStart + length],
+				generatedRange: [generatedStart, generatedStart + length + (i % 3)],
+				data: i,
+			});
+		}
+		return mappings;
+	}
+
+	function expectedOffsets(mappings: Mapping<number>[], offset: number) {
+		return mappings
+			.filter(mapping => mapping.generatedRange[0] <= offset && mapping.generatedRange[1] >= offset)
+			.map(mapping => mapping.data);
+	}
+
+	it(`matches all mappings in order`, () => {
+		const mappings = createMappings(200);
+		const map = new SourceMapBase(mappings);
+		for (let offset = 0; offset < 510; offset++) {
+			expect([...map.toSourceOffsets(offset)].map(mapped => mapped[1].data)).toEqual(expectedOffsets(mappings, offset));
+		}
+	});
+
+	it(`addMapping() / removeMapping()`, () => {
+		const mappings = createMappings(200);
+		const map = new SourceMapBase(mappings.slice(0, 100));
+
+		// build the index before updating
+		map.toSourceOffset(0);
+
+		for (const mapping of mappings.slice(100)) {
+			map.addMapping(mapping);
+		}
+		for (const mapping of mappings.filter((_, i) => i % 2 === 0)) {
+			expect(map.removeMapping(mapping)).toBe(true);
+		}
+		expect(map.removeMapping(mappings[0])).toBe(false);
+
+		const remaining = mappings.filter((_, i) => i % 2 !== 0);
+		expect(map.mappings).toEqual(remaining);
+		for (let offset = 0; offset < 510; offset++) {
+			expect([...map.toSourceOffsets(offset)].map(mapped => mapped[1].data)).toEqual(expectedOffsets(remaining, offset));
+		}
+		expect([...map.overlaps([100, 120], 'sourceRange')].map(mapping => mapping.data)).toEqual(
+			remaining
+				.filter(mapping => mapping.sourceRange[0] <= 120 && mapping.sourceRange[1] >= 100)
+				.map(mapping => mapping.data)
+		);
+	});
+
+	it(`addMapping() before a mapping`, () => {
+		const mappings = createMappings(200);
+		const map = new SourceMapBase(mappings.filter((_, i) => i % 2 === 0));
+
+		// build the index before updating
+		map.toSourceOffset(0);
+
+		for (let i = 1; i < mappings.length; i += 2) {
+			map.addMapping(mappings[i], mappings[i + 1]);
+		}
+		// run out of ids between two mappings
+		const inserted = createMappings(100).map(mapping => ({ ...mapping, data: mapping.data + 1000 }));
+		for (const mapping of inserted) {
+			map.addMapping(mapping, mappings[1]);
+		}
+
+		const expected = [mappings[0], ...inserted, ...mappings.slice(1)];
+		expect(map.mappings).toEqual(expected);
+		for (let offset = 0; offset < 510; offset++) {
+			expect([...map.toSourceOffsets(offset)].map(mapped => mapped[1].data)).toEqual(expectedOffsets(expected, offset));
+		}
+	});
+
+	it(`update() shifts mappings after the changes`, () => {
+
+		// `aaa|bbb` -> `aaa|XX|bbb`, each character is mapped to `_` + character
+		const createWordMappings = (words: string[]) => {
+			const mappings: Mapping<string>[] = [];
+			let offset = 0;
+			for (const word of words) {
+				mappings.push({
+					sourceRange: [offset, offset + word.length],
+					generatedRange: [offset * 2, (offset + word.length) * 2],
+					data: word,
+				});
+				offset += word.length;
+			}
+			return mappings;
+		};
+		const oldMappings = createWordMappings(['aaa', 'bbb', 'ccc']);
+		const newMappings = createWordMappings(['aaa', 'XX', 'bbb', 'ccc']);
+		const map = new SourceMapBase(oldMappings);
+
+		// build the index before updating
+		map.toSourceOffset(0);
+		const index = map['_index'];
+
+		const newMap = map.update(newMappings, { start: 3, end: 3, delta: 2 }, { start: 6, end: 6, delta: 4 });
+
+		expect(newMap['_index']).toBe(index);
+		expect(newMap.mappings).toBe(newMappings);
+		expect(map.mappings).toEqual(createWordMappings(['aaa', 'bbb', 'ccc']));
+		for (let offset = 0; offset <= 11; offset++) {
+			expect([...newMap.toGeneratedOffsets(offset)].map(mapped => [mapped[0], mapped[1]])).toEqual(
+				newMappings
+					.filter(mapping => mapping.sourceRange[0] <= offset && mapping.sourceRange[1] >= offset)
+					.map(mapping => [mapping.generatedRange[0] + offset - mapping.sourceRange[0], mapping])
+			);
+		}
+		// the old map rebuilds its own index
+		expect(map.toGeneratedOffset(4)).toEqual([7, oldMappings[1]]);
+
+		// remove `XX` again
+		const restoredMappings = createWordMappings(['aaa', 'bbb', 'ccc']);
+		const restoredMap = newMap.update(restoredMappings, { start: 3, end: 5, delta: -2 }, { start: 6, end: 10, delta: -4 });
+
+		expect(restoredMap['_index']).toBe(index);
+		expect([...restoredMap.toGeneratedOffsets(4)]).toEqual([[7, restoredMappings[1]]]);
+		expect([...restoredMap.toSourceOffsets(14)]).toEqual([[8, restoredMappings[2]]]);
+	});
+});
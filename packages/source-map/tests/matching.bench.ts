@@ -0,0 +1,118 @@
+import { bench, describe } from 'vitest';
+import { Mapping, SourceMapBase } from '../out';
+
+// tens of thousands of mappings, a few of them spanning most of the file like in large SFCs
+const mappings: Mapping[] = [];
+for (let i = 0; i < 30000; i++) {
+	const length = i % 1000 === 0 ? 100000 : 5;
+	mappings.push({
+		sourceRange: [i * 10, i * 10 + length],
+		generatedRange: [i * 12, i * 12 + length],
+		data: undefined,
+	});
+}
+
+describe(`build index and match 1000 offsets`, () => {
+
+	bench(`bucket memo`, () => {
+		const map = new BucketMemoSourceMap(mappings);
+		for (let i = 0; i < 1000; i++) {
+			for (const _ of map.matcing(i * 360, 'generatedRange')) { }
+		}
+	});
+
+	bench(`interval tree`, () => {
+		const map = new SourceMapBase(mappings);
+		for (let i = 0; i < 1000; i++) {
+			for (const _ of map.toSourceOffsets(i * 360)) { }
+		}
+	});
+});
+
+describe(`update one mapping and match an offset`, () => {
+
+	const bucketMemoMappings = [...mappings];
+	const intervalTreeMap = new SourceMapBase([...mappings]);
+	const mapping: Mapping = { sourceRange: [5, 6], generatedRange: [7, 8], data: undefined };
+
+	bench(`bucket memo`, () => {
+		bucketMemoMappings.push(mapping);
+		bucketMemoMappings.splice(bucketMemoMappings.indexOf(mapping), 1);
+		for (const _ of new BucketMemoSourceMap(bucketMemoMappings).matcing(7, 'generatedRange')) { }
+	});
+
+	bench(`interval tree`, () => {
+		intervalTreeMap.addMapping(mapping);
+		intervalTreeMap.removeMapping(mapping);
+		for (const _ of intervalTreeMap.toSourceOffsets(7)) { }
+	});
+});
+
+/**
+ * The previous index of `SourceMapBase`, kept for comparison.
+ */
+class BucketMemoSourceMap {
+
+	private memo: Record<'sourceRange' | 'generatedRange', { offset: number, mappings: Set<Mapping>; }[]>;
+
+	constructor(private mappings: Mapping[]) {
+		this.memo = {
+			sourceRange: this.createMemo('sourceRange'),
+			generatedRange: this.createMemo('generatedRange'),
+		};
+	}
+
+	* matcing(offset: number, from: 'sourceRange' | 'generatedRange') {
+		const memo = this.memo[from];
+		const { low, high } = binarySearch(memo, offset);
+		const skip = new Set<Mapping>();
+		for (let i = low; i <= high; i++) {
+			for (const mapping of memo[i].mappings) {
+				if (skip.has(mapping))
+					continue;
+				skip.add(mapping);
+				if (offset >= mapping[from][0] && offset <= mapping[from][1]) {
+					yield mapping;
+				}
+			}
+		}
+	}
+
+	private createMemo(key: 'sourceRange' | 'generatedRange') {
+		const offsets = new Set<number>();
+		for (const mapping of this.mappings) {
+			offsets.add(mapping[key][0]);
+			offsets.add(mapping[key][1]);
+		}
+		const arr = [...offsets].sort((a, b) => a - b).map(offset => ({ offset, mappings: new Set<Mapping>() }));
+		for (const mapping of this.mappings) {
+			const start = binarySearch(arr, mapping[key][0]).low;
+			const end = binarySearch(arr, mapping[key][1]).low;
+			for (let i = start; i <= end; i++) {
+				arr[i].mappings.add(mapping);
+			}
+		}
+		return arr;
+	}
+}
+
+function binarySearch(array: { offset: number; }[], offset: number) {
+	let low = 0;
+	let high = array.length - 1;
+	while (low <= high) {
+		const mid = Math.floor((low + high) / 2);
+		if (array[mid].offset < offset) {
+			low = mid + 1;
+		}
+		else if (array[mid].offset > offset) {
+			high = mid - 1;
+		}
+		else {
+			return { low: mid, high: mid };
+		}
+	}
+	return {
+		low: Math.max(Math.min(low, high, array.length - 1), 0),
+		high: Math.min(Math.max(low, high, 0), array.length - 1),
+	};
+}
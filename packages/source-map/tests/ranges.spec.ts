@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Mapping, SourceMapBase } from '../out';
+
+describe(`Test SourceMapBase range APIs`, () => {
+
+	// source:    `foo.bar`
+	// generated: `__ctx.foo.__get(bar)`
+	const map = new SourceMapBase<string>([
+		{ sourceRange: [0, 3], generatedRange: [6, 9], data: 'foo' },
+		{ sourceRange: [4, 7], generatedRange: [16, 19], data: 'bar' },
+	]);
+
+	function toSourceRanges(start: number, end: number, policy: 'clip' | 'expand' | 'drop', filter?: (data: string) => boolean) {
+		return [...map.toSourceRanges(start, end, filter, policy)].map(mapped => mapped[0]);
+	}
+
+	it(`range inside a mapping`, () => {
+		expect(toSourceRanges(7, 9, 'drop')).toEqual([[1, 3]]);
+		expect(toSourceRanges(7, 9, 'clip')).toEqual([[1, 3]]);
+		expect(toSourceRanges(7, 9, 'expand')).toEqual([[1, 3]]);
+	});
+
+	it(`range across mappings`, () => {
+		expect(toSourceRanges(6, 19, 'drop')).toEqual([[0, 7]]);
+		expect(toSourceRanges(6, 19, 'clip')).toEqual([[0, 3], [4, 7]]);
+		expect(toSourceRanges(6, 19, 'expand')).toEqual([[0, 7]]);
+	});
+
+	it(`range covers generated-only code`, () => {
+		expect(toSourceRanges(0, 20, 'drop')).toEqual([]);
+		expect(toSourceRanges(0, 20, 'clip')).toEqual([[0, 3], [4, 7]]);
+		expect(toSourceRanges(0, 20, 'expand')).toEqual([[0, 7]]);
+		expect(toSourceRanges(0, 12, 'expand')).toEqual([[0, 3]]);
+	});
+
+	it(`range without mappings`, () => {
+		expect(toSourceRanges(10, 15, 'clip')).toEqual([]);
+		expect(toSourceRanges(10, 15, 'expand')).toEqual([]);
+	});
+
+	it(`filter`, () => {
+		expect(toSourceRanges(0, 20, 'expand', data => data === 'bar')).toEqual([[4, 7]]);
+	});
+
+	it(`start and end must be in the same source`, () => {
+		const map = new SourceMapBase<undefined>([
+			{ source: 'a.ts', sourceRange: [0, 3], generatedRange: [0, 3], data: undefined },
+			{ source: 'b.ts', sourceRange: [0, 3], generatedRange: [3, 6], data: undefined },
+		] satisfies Mapping<undefined>[]);
+		expect([...map.toSourceRanges(1, 5)]).toEqual([]);
+		expect(map.toGeneratedRange(1, 2)?.[0]).toEqual([1, 2]);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fromSourceMapV3, Mapping, toSourceMapV3 } from '../out';
+
+describe(`Test Source Map v3 conversion`, () => {
+
+	const sourceText = `let a = 1;\nlet b = a;\n`;
+	const generatedText = `/* header */\nlet a = 1;\nlet b = a;\n`;
+
+	it(`toSourceMapV3() -> fromSourceMapV3()`, () => {
+		const mappings: Mapping<undefined>[] = [
+			{
+				source: 'a.ts',
+				sourceRange: [0, 21],
+				generatedRange: [13, 34],
+				data: undefined,
+			},
+		];
+		const sourceMap = toSourceMapV3(mappings, generatedText, 'a.ts', () => sourceText, { includeSourcesContent: true });
+
+		expect(sourceMap.sources).toEqual(['a.ts']);
+		expect(sourceMap.sourcesContent).toEqual([sourceText]);
+		expect(sourceMap.mappings).toBe(';AAAA;AACA,U;');
+
+		expect(fromSourceMapV3(sourceMap, generatedText, undefined)).toEqual([
+			{
+				source: 'a.ts',
+				sourceRange: [0, 10],
+				generatedRange: [13, 23],
+				data: undefined,
+			},
+			{
+				source: 'a.ts',
+				sourceRange: [11, 21],
+				generatedRange: [24, 34],
+				data: undefined,
+			},
+		]);
+	});
+
+	it(`fromSourceMapV3() only keeps verbatim text`, () => {
+		// `let a = 1;` -> `var a = 1;`
+		const mappings = fromSourceMapV3({
+			sources: ['a.ts'],
+			mappings: 'AAAA,IAAI',
+		}, `var a = 1;`, undefined, () => `let a = 1;`);
+
+		expect(mappings).toEqual([
+			{
+				source: 'a.ts',
+				sourceRange: [4, 10],
+				generatedRange: [4, 10],
+				data: undefined,
+			},
+		]);
+	});
+
+	it(`fromSourceMapV3() skips sources without text`, () => {
+		expect(fromSourceMapV3({
+			sources: ['a.ts'],
+			mappings: 'AAAA',
+		}, `let a = 1;`, undefined)).toEqual([]);
+	});
+});
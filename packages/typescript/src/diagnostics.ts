@@ -0,0 +1,128 @@
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import type * as embedded from '@volar/language-core';
+import { getDiagnosticFallbackRange } from '@volar/language-core';
+
+export type DiagnosticsTransformer = ReturnType<typeof createDiagnosticsTransformer>;
+
+/**
+ * Map diagnostics of virtual files to their source files, shared by the language service and the programs.
+ */
+export function createDiagnosticsTransformer(
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+	core: embedded.EmbeddedLanguageContext,
+	ls: ts.LanguageService,
+) {
+
+	// source files of virtual files for mapped diagnostics
+	const sourceFiles = new Map<string, ts.SourceFile>();
+
+	return {
+		transformDiagnostics,
+		getSourceFileOfSource,
+		toPath,
+	};
+
+	function getSourceFileOfSource(fileName: string, text: string) {
+		let sourceFile = sourceFiles.get(fileName);
+		if (sourceFile?.text !== text) {
+			sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest);
+			// required to write diagnostics to .tsbuildinfo
+			sourceFile.path = sourceFile.resolvedPath = toPath(fileName);
+			sourceFiles.set(fileName, sourceFile);
+		}
+		return sourceFile;
+	}
+
+	function toPath(fileName: string): ts.Path {
+		const program = ls.getProgram()!;
+		return ts.toPath(fileName, program.getCurrentDirectory(), ts.createGetCanonicalFileName(program.useCaseSensitiveFileNames()));
+	}
+
+	function transformDiagnostics<T extends ts.Diagnostic | ts.DiagnosticWithLocation | ts.DiagnosticRelatedInformation>(diagnostics: readonly T[]): T[] {
+		const result: T[] = [];
+
+		for (const diagnostic of diagnostics) {
+			if (
+				diagnostic.file !== undefined
+				&& diagnostic.start !== undefined
+				&& diagnostic.length !== undefined
+			) {
+
+				const source = core.mapper.getSourceByVirtualFileName(diagnostic.file.fileName);
+
+				if (source) {
+
+					if (core.typescriptLanguageServiceHost.fileExists?.(source[0]) === false)
+						continue;
+
+					let mapped = false;
+
+					for (const [sourceFileName, map] of core.mapper.getSourceMaps(source[2])) {
+
+						const range = map.toSourceRange(diagnostic.start, diagnostic.start + diagnostic.length, data => !!data.diagnostic, 'expand');
+						if (!range)
+							continue;
+
+						const sourceSnapshot = sourceFileName === source[0] ? source[1] : core.mapper.get(sourceFileName)?.[0];
+						onMapping(diagnostic, sourceFileName, range[0][0], range[0][1], sourceSnapshot?.getText(0, sourceSnapshot.getLength()));
+						mapped = true;
+						break;
+					}
+
+					if (!mapped) {
+						const fallback = getDiagnosticFallbackRange(source[2], core.mapper.getSourceMap(source[2]), diagnostic.start, diagnostic.start + diagnostic.length);
+						if (fallback) {
+							onMapping(diagnostic, source[0], fallback.range[0], fallback.range[1], source[1].getText(0, source[1].getLength()), fallback.fallback);
+						}
+					}
+				}
+				else {
+
+					if (core.typescriptLanguageServiceHost.fileExists?.(diagnostic.file.fileName) === false)
+						continue;
+
+					onMapping(diagnostic, diagnostic.file.fileName, diagnostic.start, diagnostic.start + diagnostic.length, diagnostic.file.text);
+				}
+			}
+			else if (diagnostic.file === undefined) {
+				result.push(diagnostic);
+			}
+		}
+
+		return result;
+
+		function onMapping(diagnostic: T, fileName: string, start: number, end: number, docText: string | undefined, fallback?: embedded.DiagnosticFallback) {
+
+			let file = fileName === diagnostic.file?.fileName
+				? diagnostic.file
+				: undefined;
+			if (!file) {
+
+				if (docText === undefined) {
+					const snapshot = core.typescriptLanguageServiceHost.getScriptSnapshot(fileName);
+					if (snapshot) {
+						docText = snapshot.getText(0, snapshot.getLength());
+					}
+				}
+				if (docText !== undefined) {
+					file = getSourceFileOfSource(fileName, docText);
+				}
+			}
+			const newDiagnostic: T = {
+				...diagnostic,
+				file,
+				start: start,
+				length: end - start,
+			};
+			if (fallback) {
+				(newDiagnostic as embedded.DiagnosticMappingMetadata).mappingFallback = fallback;
+			}
+			const relatedInformation = (diagnostic as ts.Diagnostic).relatedInformation;
+			if (relatedInformation) {
+				(newDiagnostic as ts.Diagnostic).relatedInformation = transformDiagnostics(relatedInformation);
+			}
+
+			result.push(newDiagnostic);
+		}
+	}
+}
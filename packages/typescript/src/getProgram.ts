@@ -1,10 +1,20 @@
 import type * as ts from 'typescript/lib/tsserverlibrary';
 import type * as embedded from '@volar/language-core';
+import { fromSourceMapV3, SourceMapBase, SourceMapV3, toSourceMapV3 } from '@volar/source-map';
+import { posix as path } from 'path';
+import type { DiagnosticsTransformer } from './diagnostics';
+
+/**
+ * Code of the error that `emit` reports on a source file when its JavaScript output is dropped,
+ * because its language module only emits declaration files.
+ */
+export const droppedEmitDiagnosticCode = 99001;
 
 export function getProgram(
 	ts: typeof import('typescript/lib/tsserverlibrary'),
 	core: embedded.EmbeddedLanguageContext,
 	ls: ts.LanguageService,
+	{ transformDiagnostics, getSourceFileOfSource, toPath }: DiagnosticsTransformer,
 ) {
 
 	const proxy: Partial<ts.Program> = {
@@ -13,11 +23,17 @@ export function getProgram(
 		getSyntacticDiagnostics,
 		getSemanticDiagnostics,
 		getGlobalDiagnostics,
+		getSourceFileByPath,
 		// @ts-expect-error
 		getBindAndCheckDiagnostics,
+		getProgramDiagnostics,
 	};
+	// properties attached by builder programs, e.g. `getProgramBuildInfo`
+	const attached: Record<string | symbol, any> = {};
+
+	let lastProgram: ts.Program | undefined;
 
-	return new Proxy({}, {
+	return new Proxy(attached, {
 		get: (target: any, property: keyof ts.Program) => {
 			if (property in proxy) {
 				return proxy[property];
@@ -28,10 +44,33 @@ export function getProgram(
 			}
 			return target[property];
 		},
+		set: (target, property, value) => {
+			target[property] = value;
+			(getProgram() as any)[property] = value;
+			return true;
+		},
 	});
 
 	function getProgram() {
-		return ls.getProgram()!;
+		const program = ls.getProgram()!;
+		if (program !== lastProgram) {
+			Object.assign(program, attached);
+			lastProgram = program;
+		}
+		return program;
+	}
+
+	function getSourceFileByPath(path: ts.Path) {
+		const sourceFile = getProgram().getSourceFileByPath(path);
+		if (sourceFile) {
+			return sourceFile;
+		}
+		// builder programs restore diagnostics of source files from .tsbuildinfo by path
+		for (const [fileName, snapshot] of core.mapper.all()) {
+			if (toPath(fileName) === path) {
+				return getSourceFileOfSource(fileName, snapshot.getText(0, snapshot.getLength()));
+			}
+		}
 	}
 
 	function getRootFileNames() {
@@ -43,6 +82,11 @@ export function getProgram(
 		return getSourceFileDiagnosticsWorker(sourceFile, cancellationToken, 'getBindAndCheckDiagnostics' as 'getSemanticDiagnostics');
 	}
 
+	// for builder programs, e.g. vue-tsc --incremental, vue-tsc -b
+	function getProgramDiagnostics(sourceFile: ts.SourceFile) {
+		return getSourceFileDiagnosticsWorker(sourceFile, undefined, 'getProgramDiagnostics' as 'getSemanticDiagnostics');
+	}
+
 	// for vue-tsc --noEmit
 	function getSyntacticDiagnostics(sourceFile?: ts.SourceFile, cancellationToken?: ts.CancellationToken) {
 		return getSourceFileDiagnosticsWorker(sourceFile, cancellationToken, 'getSyntacticDiagnostics');
@@ -79,94 +123,128 @@ export function getProgram(
 		return transformDiagnostics(getProgram().getGlobalDiagnostics(cancellationToken) ?? []);
 	}
 	function emit(targetSourceFile?: ts.SourceFile, _writeFile?: ts.WriteFileCallback, cancellationToken?: ts.CancellationToken, emitOnlyDtsFiles?: boolean, customTransformers?: ts.CustomTransformers): ts.EmitResult {
-		const scriptResult = getProgram().emit(targetSourceFile, (core.typescriptLanguageServiceHost.writeFile ?? ts.sys.writeFile), cancellationToken, emitOnlyDtsFiles, customTransformers);
-		return {
-			emitSkipped: scriptResult.emitSkipped,
-			emittedFiles: scriptResult.emittedFiles,
-			diagnostics: transformDiagnostics(scriptResult.diagnostics),
-		};
-	}
-
-	// transform
-	function transformDiagnostics<T extends ts.Diagnostic | ts.DiagnosticWithLocation | ts.DiagnosticRelatedInformation>(diagnostics: readonly T[]): T[] {
-		const result: T[] = [];
-
-		for (const diagnostic of diagnostics) {
-			if (
-				diagnostic.file !== undefined
-				&& diagnostic.start !== undefined
-				&& diagnostic.length !== undefined
-			) {
 
-				const source = core.mapper.getSourceByVirtualFileName(diagnostic.file.fileName);
+		const writeFile = _writeFile ?? core.typescriptLanguageServiceHost.writeFile ?? ts.sys.writeFile;
+		const renamedFiles = new Map<string, string | undefined>();
+		const droppedSourceFiles = new Set<string>();
 
-				if (source) {
+		// TypeScript writes the source map before the file it belongs to
+		let pendingMap: Parameters<ts.WriteFileCallback> | undefined;
 
-					if (core.typescriptLanguageServiceHost.fileExists?.(source[0]) === false)
-						continue;
+		const scriptResult = getProgram().emit(targetSourceFile, (...args) => {
 
-					const map = core.mapper.getSourceMap(source[2]);
+			const [fileName, text, writeByteOrderMark, onError, sourceFiles, data] = args;
+			const source = sourceFiles?.length === 1 ? core.mapper.getSourceByVirtualFileName(sourceFiles[0].fileName) : undefined;
 
-					for (const start of map.toSourceOffsets(diagnostic.start)) {
-
-						if (!start[1].data.diagnostic)
-							continue;
+			if (!source) {
+				flushPendingMap();
+				writeFile(...args);
+				return;
+			}
 
-						for (const end of map.toSourceOffsets(diagnostic.start + diagnostic.length, true)) {
+			const [sourceFileName, _snapshot, virtualFile, languageModule] = source;
+			const isDeclaration = /\.d\.[cm]?ts(\.map)?$/.test(fileName);
 
-							if (!end[1].data.diagnostic)
-								continue;
+			if (!isDeclaration && !languageModule.emit?.js) {
+				renamedFiles.set(fileName, undefined);
+				droppedSourceFiles.add(sourceFileName);
+				return;
+			}
 
-							onMapping(diagnostic, source[0], start[0], end[0], source[1].getText(0, source[1].getLength()));
-							break;
-						}
-						break;
-					}
-				}
-				else {
+			const outputFileName = languageModule.emit?.getOutputFileName?.(sourceFileName, fileName) ?? fileName;
+			renamedFiles.set(fileName, outputFileName);
 
-					if (core.typescriptLanguageServiceHost.fileExists?.(diagnostic.file.fileName) === false)
-						continue;
+			if (fileName.endsWith('.map')) {
+				flushPendingMap();
+				pendingMap = args;
+				return;
+			}
 
-					onMapping(diagnostic, diagnostic.file.fileName, diagnostic.start, diagnostic.start + diagnostic.length, diagnostic.file.text);
+			let outputText = text;
+
+			if (pendingMap?.[0] === fileName + '.map') {
+				const [mapFileName, mapText] = pendingMap;
+				const outputMapFileName = renamedFiles.get(mapFileName) ?? mapFileName;
+				const sourceMap = composeSourceMap(JSON.parse(mapText), text, outputFileName, sourceFileName, virtualFile);
+				writeFile(outputMapFileName, JSON.stringify(sourceMap), writeByteOrderMark, onError, sourceFiles, data);
+				pendingMap = undefined;
+				if (outputMapFileName !== mapFileName) {
+					outputText = outputText.replace(
+						'sourceMappingURL=' + path.basename(mapFileName),
+						'sourceMappingURL=' + path.basename(outputMapFileName),
+					);
 				}
 			}
-			else if (diagnostic.file === undefined) {
-				result.push(diagnostic);
-			}
-		}
 
-		return result;
+			flushPendingMap();
+			writeFile(outputFileName, outputText, writeByteOrderMark, onError, sourceFiles, data);
+		}, cancellationToken, emitOnlyDtsFiles, customTransformers);
 
-		function onMapping(diagnostic: T, fileName: string, start: number, end: number, docText: string | undefined) {
+		flushPendingMap();
 
-			let file = fileName === diagnostic.file?.fileName
-				? diagnostic.file
-				: undefined;
-			if (!file) {
+		return {
+			emitSkipped: scriptResult.emitSkipped,
+			emittedFiles: scriptResult.emittedFiles
+				?.map(fileName => renamedFiles.has(fileName) ? renamedFiles.get(fileName) : fileName)
+				.filter((fileName): fileName is string => fileName !== undefined),
+			diagnostics: [
+				...transformDiagnostics(scriptResult.diagnostics),
+				...[...droppedSourceFiles].map(createDroppedEmitDiagnostic),
+			],
+		};
 
-				if (docText === undefined) {
-					const snapshot = core.typescriptLanguageServiceHost.getScriptSnapshot(fileName);
-					if (snapshot) {
-						docText = snapshot.getText(0, snapshot.getLength());
-					}
-				}
-				else {
-					file = ts.createSourceFile(fileName, docText, fileName.endsWith('.vue') || fileName.endsWith('.md') || fileName.endsWith('.html') ? ts.ScriptTarget.JSON : ts.ScriptTarget.Latest);
-				}
-			}
-			const newDiagnostic: T = {
-				...diagnostic,
-				file,
-				start: start,
-				length: end - start,
+		function createDroppedEmitDiagnostic(sourceFileName: string): ts.Diagnostic {
+			const snapshot = core.mapper.get(sourceFileName)?.[0];
+			return {
+				category: ts.DiagnosticCategory.Error,
+				code: droppedEmitDiagnosticCode,
+				file: snapshot ? getSourceFileOfSource(sourceFileName, snapshot.getText(0, snapshot.getLength())) : undefined,
+				start: snapshot ? 0 : undefined,
+				length: snapshot ? 0 : undefined,
+				messageText: `JavaScript of '${sourceFileName}' is not emitted because its language module only emits declaration files, enable 'emitDeclarationOnly' or 'noEmit'.`,
 			};
-			const relatedInformation = (diagnostic as ts.Diagnostic).relatedInformation;
-			if (relatedInformation) {
-				(newDiagnostic as ts.Diagnostic).relatedInformation = transformDiagnostics(relatedInformation);
-			}
+		}
 
-			result.push(newDiagnostic);
+		function flushPendingMap() {
+			if (pendingMap) {
+				const [mapFileName, ...rest] = pendingMap;
+				writeFile(renamedFiles.get(mapFileName) ?? mapFileName, ...rest);
+				pendingMap = undefined;
+			}
 		}
 	}
+
+	/**
+	 * Compose the source map of an emitted virtual file with the mappings of the virtual file,
+	 * so that it points to the source files.
+	 */
+	function composeSourceMap(sourceMap: SourceMapV3, generatedText: string, outputFileName: string, sourceFileName: string, virtualFile: embedded.VirtualFile): SourceMapV3 {
+
+		if (!sourceMap.sources.length)
+			return sourceMap;
+
+		const emittedMap = new SourceMapBase(fromSourceMapV3(sourceMap, generatedText, undefined, () => virtualFile.text));
+		const virtualMap = new SourceMapBase(virtualFile.mappings);
+		const composed = SourceMapBase.compose(virtualMap, emittedMap, () => undefined);
+		const result = toSourceMapV3(
+			composed.mappings,
+			generatedText,
+			sourceFileName,
+			source => {
+				const snapshot = core.mapper.get(source)?.[0];
+				return snapshot?.getText(0, snapshot.getLength());
+			},
+			{
+				file: sourceMap.file !== undefined ? path.basename(outputFileName) : undefined,
+				sourceRoot: sourceMap.sourceRoot,
+				includeSourcesContent: !!sourceMap.sourcesContent,
+			},
+		);
+
+		// same form as the virtual file path in the original source map
+		const virtualSourceDir = path.dirname(sourceMap.sources[0]);
+		result.sources = result.sources.map(source => path.join(virtualSourceDir, path.relative(path.dirname(virtualFile.fileName), source)));
+
+		return result;
+	}
 }
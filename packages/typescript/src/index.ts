@@ -1,6 +1,17 @@
 import type * as ts from 'typescript/lib/tsserverlibrary';
+import { createDiagnosticsTransformer } from './diagnostics';
 import { getProgram } from './getProgram';
+import { findWithTeleports } from './teleports';
 import * as embedded from '@volar/language-core';
+import { posix as path } from 'path';
+
+export * from './reporter';
+export * from './serverPlugin';
+export { createBuilderProgramProxy, createTscProgramProxy, runTsc } from './tsc';
+export { droppedEmitDiagnosticCode } from './getProgram';
+
+// `file` of the built-in install package command is not public
+type CodeActionCommand = ts.CodeActionCommand & { file?: string; };
 
 export function createLanguageService(host: embedded.LanguageServiceHost, mods: embedded.LanguageModule[]) {
 
@@ -14,34 +25,44 @@ export function createLanguageService(host: embedded.LanguageServiceHost, mods:
 	const core = embedded.createEmbeddedLanguageServiceHost(host, mods);
 	const ts = host.getTypeScriptModule();
 	const ls = ts.createLanguageService(core.typescriptLanguageServiceHost);
+	const diagnostics = createDiagnosticsTransformer(ts, core, ls);
 
 	return new Proxy<Partial<_LanguageService>>({
 		organizeImports,
 
-		// only support for .ts for now, not support for .vue
+		getSyntacticDiagnostics,
+		getSemanticDiagnostics,
+		getSuggestionDiagnostics,
+
 		getCompletionsAtPosition,
+		getCompletionEntryDetails,
+		getCompletionEntrySymbol,
+		getQuickInfoAtPosition,
+		getSignatureHelpItems,
+		getEncodedSemanticClassifications,
+
 		getDefinitionAtPosition,
 		getDefinitionAndBoundSpan,
 		getTypeDefinitionAtPosition,
 		getImplementationAtPosition,
+		getRenameInfo,
 		findRenameLocations,
 		getReferencesAtPosition,
 		findReferences,
+		getDocumentHighlights,
 
-		// TODO: now is handled by vue server
-		// prepareCallHierarchy: tsLanguageService.rawLs.prepareCallHierarchy,
-		// provideCallHierarchyIncomingCalls: tsLanguageService.rawLs.provideCallHierarchyIncomingCalls,
-		// provideCallHierarchyOutgoingCalls: tsLanguageService.rawLs.provideCallHierarchyOutgoingCalls,
-		// getEditsForFileRename: tsLanguageService.rawLs.getEditsForFileRename,
+		prepareCallHierarchy,
+		provideCallHierarchyIncomingCalls,
+		provideCallHierarchyOutgoingCalls,
+		getEditsForFileRename,
 
-		// TODO
-		// getCodeFixesAtPosition: tsLanguageService.rawLs.getCodeFixesAtPosition,
-		// getCombinedCodeFix: tsLanguageService.rawLs.getCombinedCodeFix,
-		// applyCodeActionCommand: tsLanguageService.rawLs.applyCodeActionCommand,
-		// getApplicableRefactors: tsLanguageService.rawLs.getApplicableRefactors,
-		// getEditsForRefactor: tsLanguageService.rawLs.getEditsForRefactor,
+		getCodeFixesAtPosition,
+		getCombinedCodeFix,
+		applyCodeActionCommand,
+		getApplicableRefactors,
+		getEditsForRefactor,
 
-		getProgram: () => getProgram(ts, core, ls),
+		getProgram: () => getProgram(ts, core, ls, diagnostics),
 
 		__internal__: {
 			context: core,
@@ -73,14 +94,272 @@ export function createLanguageService(host: embedded.LanguageServiceHost, mods:
 		else {
 			return ls.organizeImports(args, formatOptions, preferences);
 		}
-		return edits.map(transformFileTextChanges).filter(notEmpty);
+		return edits.map(transformFileTextChanges).flat();
+	}
+	function getSyntacticDiagnostics(fileName: string): ReturnType<ts.LanguageService['getSyntacticDiagnostics']> {
+		return getSourceFileDiagnostics(fileName, fileName => ls.getSyntacticDiagnostics(fileName));
+	}
+	function getSemanticDiagnostics(fileName: string): ReturnType<ts.LanguageService['getSemanticDiagnostics']> {
+		return getSourceFileDiagnostics(fileName, fileName => ls.getSemanticDiagnostics(fileName));
+	}
+	function getSuggestionDiagnostics(fileName: string): ReturnType<ts.LanguageService['getSuggestionDiagnostics']> {
+		return getSourceFileDiagnostics(fileName, fileName => ls.getSuggestionDiagnostics(fileName));
+	}
+	function getSourceFileDiagnostics<T extends ts.Diagnostic>(fileName: string, worker: (fileName: string) => readonly T[]): T[] {
+		const file = core.mapper.get(fileName)?.[1];
+		if (!file) {
+			return diagnostics.transformDiagnostics(worker(fileName));
+		}
+		let result: T[] = [];
+		embedded.forEachEmbeddeds(file, embedded => {
+			if (embedded.kind && embedded.capabilities.diagnostic) {
+				result = result.concat(diagnostics.transformDiagnostics(worker(embedded.fileName)));
+			}
+		});
+		// diagnostics mapped to the other sources of the virtual files are reported with them
+		return result.filter(diagnostic => diagnostic.file && core.mapper.get(diagnostic.file.fileName)?.[1] === file);
+	}
+	function prepareCallHierarchy(fileName: string, position: number): ReturnType<ts.LanguageService['prepareCallHierarchy']> {
+		const items = findWithTeleports(
+			core.mapper,
+			toGeneratedOffsets(fileName, position, data => !!data.references),
+			data => !!data.references,
+			(fileName, position) => {
+				const result = ls.prepareCallHierarchy(fileName, position);
+				return Array.isArray(result) ? result : result ? [result] : undefined;
+			},
+			item => [{ fileName: item.file, textSpan: item.selectionSpan }],
+		).map(transformCallHierarchyItem).filter(notEmpty);
+		return items.length === 1 ? items[0] : items.length ? items : undefined;
+	}
+	function provideCallHierarchyIncomingCalls(fileName: string, position: number): ReturnType<ts.LanguageService['provideCallHierarchyIncomingCalls']> {
+		let calls: ts.CallHierarchyIncomingCall[] = [];
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.references)) {
+			calls = calls.concat(ls.provideCallHierarchyIncomingCalls(virtualFileName, virtualPosition));
+		}
+		return calls
+			.map(call => {
+				const from = transformCallHierarchyItem(call.from);
+				const fromSpans = call.fromSpans
+					.map(span => transformSpan(call.from.file, span)?.textSpan)
+					.filter(notEmpty);
+				return from ? { from, fromSpans } : undefined;
+			})
+			.filter(notEmpty);
+	}
+	function provideCallHierarchyOutgoingCalls(fileName: string, position: number): ReturnType<ts.LanguageService['provideCallHierarchyOutgoingCalls']> {
+		let calls: ts.CallHierarchyOutgoingCall[] = [];
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.references)) {
+			// fromSpans are in the file of the prepared item
+			calls = calls.concat(ls.provideCallHierarchyOutgoingCalls(virtualFileName, virtualPosition).map(call => ({
+				...call,
+				fromSpans: call.fromSpans
+					.map(span => transformSpan(virtualFileName, span)?.textSpan)
+					.filter(notEmpty),
+			})));
+		}
+		return calls
+			.map(call => {
+				const to = transformCallHierarchyItem(call.to);
+				return to ? { to, fromSpans: call.fromSpans } : undefined;
+			})
+			.filter(notEmpty);
+	}
+	function getEditsForFileRename(oldFilePath: string, newFilePath: string, formatOptions: ts.FormatCodeSettings, preferences: ts.UserPreferences | undefined): ReturnType<ts.LanguageService['getEditsForFileRename']> {
+		const file = core.mapper.get(oldFilePath)?.[1];
+		if (file) {
+			// rename the virtual script of the source file, e.g. foo.vue.ts -> bar.vue.ts
+			let scriptExt: string | undefined;
+			embedded.forEachEmbeddeds(file, embedded => {
+				if (embedded.kind && embedded.fileName.substring(file.fileName.length).match(/^\.(js|ts)x?$/)) {
+					scriptExt = embedded.fileName.substring(file.fileName.length);
+				}
+			});
+			if (!scriptExt) {
+				return [];
+			}
+			oldFilePath += scriptExt;
+			newFilePath += scriptExt;
+		}
+		return ls.getEditsForFileRename(oldFilePath, newFilePath, formatOptions, preferences).map(transformFileTextChanges).flat();
+	}
+	function getCodeFixesAtPosition(fileName: string, start: number, end: number, errorCodes: readonly number[], formatOptions: ts.FormatCodeSettings, preferences: ts.UserPreferences): ReturnType<ts.LanguageService['getCodeFixesAtPosition']> {
+		let fixes: ts.CodeFixAction[] = [];
+		for (const [virtualFileName, virtualStart, virtualEnd] of toGeneratedRanges(fileName, start, end)) {
+			fixes = fixes.concat(ls.getCodeFixesAtPosition(virtualFileName, virtualStart, virtualEnd, errorCodes, formatOptions, preferences));
+		}
+		return fixes.map(fix => ({
+			...fix,
+			changes: fix.changes.map(transformFileTextChanges).flat(),
+			commands: fix.commands?.map(transformCodeActionCommand),
+		})).filter(fix => fix.changes.some(changes => changes.textChanges.length) || fix.commands?.length);
+	}
+	function getCombinedCodeFix(scope: ts.CombinedCodeFixScope, fixId: {}, formatOptions: ts.FormatCodeSettings, preferences: ts.UserPreferences): ReturnType<ts.LanguageService['getCombinedCodeFix']> {
+		let changes: ts.FileTextChanges[] = [];
+		let commands: ts.CodeActionCommand[] = [];
+		for (const fileName of getGeneratedFileNames(scope.fileName)) {
+			const result = ls.getCombinedCodeFix({ ...scope, fileName }, fixId, formatOptions, preferences);
+			changes = changes.concat(result.changes);
+			commands = commands.concat(result.commands ?? []);
+		}
+		const sourceChanges = transformFileTextChangesLossless(changes);
+		if (!sourceChanges) {
+			// applying a part of the fix may break the source files
+			return { changes: [] };
+		}
+		return {
+			changes: sourceChanges,
+			commands: commands.length ? commands.map(transformCodeActionCommand) : undefined,
+		};
+	}
+	function applyCodeActionCommand(action: ts.CodeActionCommand, formatSettings?: ts.FormatCodeSettings): Promise<ts.ApplyCodeActionCommandResult>;
+	function applyCodeActionCommand(action: ts.CodeActionCommand[], formatSettings?: ts.FormatCodeSettings): Promise<ts.ApplyCodeActionCommandResult[]>;
+	function applyCodeActionCommand(action: ts.CodeActionCommand | ts.CodeActionCommand[], formatSettings?: ts.FormatCodeSettings): Promise<ts.ApplyCodeActionCommandResult | ts.ApplyCodeActionCommandResult[]>;
+	/** @deprecated `fileName` is ignored */
+	function applyCodeActionCommand(fileName: string, action: ts.CodeActionCommand): Promise<ts.ApplyCodeActionCommandResult>;
+	/** @deprecated `fileName` is ignored */
+	function applyCodeActionCommand(fileName: string, action: ts.CodeActionCommand[]): Promise<ts.ApplyCodeActionCommandResult[]>;
+	/** @deprecated `fileName` is ignored */
+	function applyCodeActionCommand(fileName: string, action: ts.CodeActionCommand | ts.CodeActionCommand[]): Promise<ts.ApplyCodeActionCommandResult | ts.ApplyCodeActionCommandResult[]>;
+	function applyCodeActionCommand(
+		actionOrFileName: ts.CodeActionCommand | ts.CodeActionCommand[] | string,
+		formatSettingsOrAction?: ts.FormatCodeSettings | ts.CodeActionCommand | ts.CodeActionCommand[],
+	): Promise<ts.ApplyCodeActionCommandResult | ts.ApplyCodeActionCommandResult[]> {
+		// deprecated overloads: (fileName, action)
+		const [action, formatSettings] = typeof actionOrFileName === 'string'
+			? [formatSettingsOrAction as ts.CodeActionCommand | ts.CodeActionCommand[], undefined]
+			: [actionOrFileName, formatSettingsOrAction as ts.FormatCodeSettings | undefined];
+		if (Array.isArray(action)) {
+			return ls.applyCodeActionCommand(action.map(toGeneratedCodeActionCommand), formatSettings);
+		}
+		return ls.applyCodeActionCommand(toGeneratedCodeActionCommand(action), formatSettings);
+	}
+	function getApplicableRefactors(fileName: string, positionOrRange: number | ts.TextRange, preferences: ts.UserPreferences | undefined, triggerReason?: ts.RefactorTriggerReason, kind?: string): ReturnType<ts.LanguageService['getApplicableRefactors']> {
+		let refactors: ts.ApplicableRefactorInfo[] = [];
+		for (const [virtualFileName, virtualPositionOrRange] of toGeneratedPositionOrRanges(fileName, positionOrRange)) {
+			refactors = refactors.concat(ls.getApplicableRefactors(virtualFileName, virtualPositionOrRange, preferences, triggerReason, kind));
+		}
+		return refactors;
+	}
+	function getEditsForRefactor(fileName: string, formatOptions: ts.FormatCodeSettings, positionOrRange: number | ts.TextRange, refactorName: string, actionName: string, preferences: ts.UserPreferences | undefined): ReturnType<ts.LanguageService['getEditsForRefactor']> {
+		for (const [virtualFileName, virtualPositionOrRange] of toGeneratedPositionOrRanges(fileName, positionOrRange)) {
+			if (!ls.getApplicableRefactors(virtualFileName, virtualPositionOrRange, preferences).some(refactor => refactor.name === refactorName))
+				continue;
+			const result = ls.getEditsForRefactor(virtualFileName, formatOptions, virtualPositionOrRange, refactorName, actionName, preferences);
+			if (!result)
+				continue;
+			const edits = result.edits.map(transformFileTextChanges).flat();
+			const renameLocation = result.renameFilename !== undefined && result.renameLocation !== undefined
+				? transformRenameLocation(result.renameFilename, result.renameLocation, result.edits, edits)
+				: undefined;
+			return {
+				...result,
+				edits,
+				renameFilename: renameLocation?.fileName,
+				renameLocation: renameLocation?.offset,
+				commands: result.commands?.map(transformCodeActionCommand),
+			};
+		}
+	}
+	function getCompletionsAtPosition(fileName: string, position: number, options: ts.GetCompletionsAtPositionOptions | undefined, formattingSettings?: ts.FormatCodeSettings): ReturnType<ts.LanguageService['getCompletionsAtPosition']> {
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.completion)) {
+			const finalResult = ls.getCompletionsAtPosition(virtualFileName, virtualPosition, options, formattingSettings);
+			if (!finalResult)
+				continue;
+			const entries: ts.CompletionEntry[] = [];
+			for (const entry of finalResult.entries) {
+				if (entry.name.indexOf('__VLS_') >= 0)
+					continue;
+				if (entry.replacementSpan) {
+					const replacementSpan = transformSpan(virtualFileName, entry.replacementSpan);
+					if (!replacementSpan)
+						continue;
+					entries.push({ ...entry, replacementSpan: replacementSpan.textSpan });
+				}
+				else {
+					entries.push(entry);
+				}
+			}
+			return {
+				...finalResult,
+				optionalReplacementSpan: transformSpan(virtualFileName, finalResult.optionalReplacementSpan)?.textSpan,
+				entries,
+			};
+		}
+	}
+	function getCompletionEntryDetails(fileName: string, position: number, entryName: string, formatOptions: ts.FormatCodeOptions | ts.FormatCodeSettings | undefined, source: string | undefined, preferences: ts.UserPreferences | undefined, entryData: ts.CompletionEntryData | undefined): ReturnType<ts.LanguageService['getCompletionEntryDetails']> {
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.completion)) {
+			const details = ls.getCompletionEntryDetails(virtualFileName, virtualPosition, entryName, formatOptions, source, preferences, entryData);
+			if (!details)
+				continue;
+			return {
+				...details,
+				// e.g. auto imports
+				codeActions: details.codeActions?.map(action => ({
+					...action,
+					changes: action.changes.map(transformFileTextChanges).flat(),
+					commands: action.commands?.map(transformCodeActionCommand),
+				})),
+			};
+		}
 	}
-	function getCompletionsAtPosition(fileName: string, position: number, options: ts.GetCompletionsAtPositionOptions | undefined): ReturnType<ts.LanguageService['getCompletionsAtPosition']> {
-		const finalResult = ls.getCompletionsAtPosition(fileName, position, options);
-		if (finalResult) {
-			finalResult.entries = finalResult.entries.filter(entry => entry.name.indexOf('__VLS_') === -1);
+	function getCompletionEntrySymbol(fileName: string, position: number, name: string, source: string | undefined): ReturnType<ts.LanguageService['getCompletionEntrySymbol']> {
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.completion)) {
+			const symbol = ls.getCompletionEntrySymbol(virtualFileName, virtualPosition, name, source);
+			if (symbol) {
+				return symbol;
+			}
+		}
+	}
+	function getQuickInfoAtPosition(fileName: string, position: number): ReturnType<ts.LanguageService['getQuickInfoAtPosition']> {
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.hover)) {
+			const result = ls.getQuickInfoAtPosition(virtualFileName, virtualPosition);
+			const textSpan = transformSpan(virtualFileName, result?.textSpan);
+			if (result && textSpan) {
+				return {
+					...result,
+					textSpan: textSpan.textSpan,
+				};
+			}
 		}
-		return finalResult;
+	}
+	function getSignatureHelpItems(fileName: string, position: number, options: ts.SignatureHelpItemsOptions | undefined): ReturnType<ts.LanguageService['getSignatureHelpItems']> {
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.completion)) {
+			const result = ls.getSignatureHelpItems(virtualFileName, virtualPosition, options);
+			const applicableSpan = transformSpan(virtualFileName, result?.applicableSpan);
+			if (result && applicableSpan) {
+				return {
+					...result,
+					applicableSpan: applicableSpan.textSpan,
+				};
+			}
+		}
+	}
+	function getEncodedSemanticClassifications(fileName: string, span: ts.TextSpan, format?: ts.SemanticClassificationFormat): ReturnType<ts.LanguageService['getEncodedSemanticClassifications']> {
+		const file = core.mapper.get(fileName)?.[1];
+		if (!file) {
+			return ls.getEncodedSemanticClassifications(fileName, span, format);
+		}
+		const classifications: [number, number, number][] = [];
+		embedded.forEachEmbeddeds(file, embedded => {
+			if (!embedded.kind)
+				return;
+			const map = core.mapper.getSourceMap(embedded);
+			for (const [range] of map.toGeneratedRanges(span.start, span.start + span.length, data => !!data.semanticTokens, 'clip')) {
+				const result = ls.getEncodedSemanticClassifications(embedded.fileName, { start: range[0], length: range[1] - range[0] }, format);
+				for (let i = 0; i < result.spans.length; i += 3) {
+					const sourceRange = map.toSourceRange(result.spans[i], result.spans[i] + result.spans[i + 1], data => !!data.semanticTokens);
+					if (sourceRange) {
+						classifications.push([sourceRange[0][0], sourceRange[0][1] - sourceRange[0][0], result.spans[i + 2]]);
+					}
+				}
+			}
+		});
+		return {
+			// dedupe overlapped requests
+			spans: [...new Map(classifications.sort((a, b) => a[0] - b[0]).map(c => [c.join(','), c])).values()].flat(),
+			endOfLineState: ts.EndOfLineState.None,
+		};
 	}
 	function getReferencesAtPosition(fileName: string, position: number): ReturnType<ts.LanguageService['getReferencesAtPosition']> {
 		return findLocations(fileName, position, 'references') as ts.ReferenceEntry[];
@@ -94,6 +373,32 @@ export function createLanguageService(host: embedded.LanguageServiceHost, mods:
 	function getImplementationAtPosition(fileName: string, position: number): ReturnType<ts.LanguageService['getImplementationAtPosition']> {
 		return findLocations(fileName, position, 'implementation') as ts.ImplementationLocation[];
 	}
+	function getRenameInfo(fileName: string, position: number, preferences: ts.UserPreferences): ts.RenameInfo;
+	/** @deprecated Use the overload with `preferences` */
+	function getRenameInfo(fileName: string, position: number, options?: ts.RenameInfoOptions): ts.RenameInfo;
+	function getRenameInfo(fileName: string, position: number, preferences?: ts.UserPreferences | ts.RenameInfoOptions): ts.RenameInfo {
+		let failure: ts.RenameInfoFailure | undefined;
+		for (const [virtualFileName, virtualPosition] of toGeneratedOffsets(fileName, position, data => !!data.rename)) {
+			const info = ls.getRenameInfo(virtualFileName, virtualPosition, preferences as ts.UserPreferences);
+			if (!info.canRename) {
+				failure ??= info;
+				continue;
+			}
+			const triggerSpan = transformSpan(virtualFileName, info.triggerSpan);
+			if (triggerSpan) {
+				return {
+					...info,
+					// renaming a module specifier of a virtual file renames the source file
+					fileToRename: info.fileToRename !== undefined ? core.mapper.getSourceByVirtualFileName(info.fileToRename)?.[0] ?? info.fileToRename : undefined,
+					triggerSpan: triggerSpan.textSpan,
+				};
+			}
+		}
+		return failure ?? {
+			canRename: false,
+			localizedErrorMessage: ts.getLocaleSpecificMessage(ts.Diagnostics.You_cannot_rename_this_element),
+		};
+	}
 	function findRenameLocations(fileName: string, position: number, findInStrings: boolean, findInComments: boolean, providePrefixAndSuffixTextForRename?: boolean): ReturnType<ts.LanguageService['findRenameLocations']> {
 		return findLocations(fileName, position, 'rename', findInStrings, findInComments, providePrefixAndSuffixTextForRename) as ts.RenameLocation[];
 	}
@@ -105,147 +410,285 @@ export function createLanguageService(host: embedded.LanguageServiceHost, mods:
 		findInComments = false,
 		providePrefixAndSuffixTextForRename?: boolean
 	) {
-
-		const loopChecker = new Set<string>();
-		let symbols: (ts.DefinitionInfo | ts.ReferenceEntry | ts.ImplementationLocation | ts.RenameLocation)[] = [];
-
-		withTeleports(fileName, position);
-
+		const capability = mode === 'references' || mode === 'rename' ? mode : 'definition';
+		const symbols = findWithTeleports(
+			core.mapper,
+			toGeneratedOffsets(fileName, position, data => !!data[capability]),
+			data => !!data[capability],
+			(fileName, position): readonly (ts.DefinitionInfo | ts.ReferenceEntry | ts.ImplementationLocation | ts.RenameLocation)[] | undefined =>
+				mode === 'definition' ? ls.getDefinitionAtPosition(fileName, position)
+					: mode === 'typeDefinition' ? ls.getTypeDefinitionAtPosition(fileName, position)
+						: mode === 'references' ? ls.getReferencesAtPosition(fileName, position)
+							: mode === 'implementation' ? ls.getImplementationAtPosition(fileName, position)
+								: ls.findRenameLocations(fileName, position, findInStrings, findInComments, providePrefixAndSuffixTextForRename),
+			symbol => [symbol],
+		);
 		return symbols.map(s => transformDocumentSpanLike(s)).filter(notEmpty);
-
-		function withTeleports(fileName: string, position: number) {
-			if (loopChecker.has(fileName + ':' + position))
-				return;
-			loopChecker.add(fileName + ':' + position);
-			const _symbols = mode === 'definition' ? ls.getDefinitionAtPosition(fileName, position)
-				: mode === 'typeDefinition' ? ls.getTypeDefinitionAtPosition(fileName, position)
-					: mode === 'references' ? ls.getReferencesAtPosition(fileName, position)
-						: mode === 'implementation' ? ls.getImplementationAtPosition(fileName, position)
-							: mode === 'rename' ? ls.findRenameLocations(fileName, position, findInStrings, findInComments, providePrefixAndSuffixTextForRename)
-								: undefined;
-			if (!_symbols) return;
-			symbols = symbols.concat(_symbols);
-			for (const ref of _symbols) {
-				loopChecker.add(ref.fileName + ':' + ref.textSpan.start);
-				const teleport = core.mapper.getTeleport(ref.fileName);
-
-				if (!teleport)
-					continue;
-
-				for (const teleOffset of teleport.findTeleports(ref.textSpan.start, data => {
-					if ((mode === 'definition' || mode === 'typeDefinition' || mode === 'implementation') && !data.definition)
-						return false;
-					if ((mode === 'references') && !data.references)
-						return false;
-					if ((mode === 'rename') && !data.rename)
-						return false;
-					return true;
-				})) {
-					if (loopChecker.has(ref.fileName + ':' + teleOffset))
-						continue;
-					withTeleports(ref.fileName, teleOffset);
-				}
-			}
-		}
 	}
 	function getDefinitionAndBoundSpan(fileName: string, position: number): ReturnType<ts.LanguageService['getDefinitionAndBoundSpan']> {
 
-		const loopChecker = new Set<string>();
-		let textSpan: ts.TextSpan | undefined;
-		let symbols: ts.DefinitionInfo[] = [];
+		let boundSpan: { fileName: string, textSpan: ts.TextSpan; } | undefined;
 
-		withTeleports(fileName, position);
+		const symbols = findWithTeleports(
+			core.mapper,
+			toGeneratedOffsets(fileName, position, data => !!data.definition),
+			data => !!data.definition,
+			(fileName, position) => {
+				const result = ls.getDefinitionAndBoundSpan(fileName, position);
+				if (result && !boundSpan) {
+					boundSpan = { fileName, textSpan: result.textSpan };
+				}
+				return result?.definitions;
+			},
+			symbol => [symbol],
+		);
+		const textSpan = transformSpan(boundSpan?.fileName, boundSpan?.textSpan)?.textSpan;
 
 		if (!textSpan) return;
 		return {
-			textSpan: textSpan,
-			definitions: symbols?.map(s => transformDocumentSpanLike(s)).filter(notEmpty),
+			textSpan,
+			definitions: symbols.map(s => transformDocumentSpanLike(s)).filter(notEmpty),
 		};
-
-		function withTeleports(fileName: string, position: number) {
-			if (loopChecker.has(fileName + ':' + position))
-				return;
-			loopChecker.add(fileName + ':' + position);
-			const _symbols = ls.getDefinitionAndBoundSpan(fileName, position);
-			if (!_symbols) return;
-			if (!textSpan) {
-				textSpan = _symbols.textSpan;
-			}
-			if (!_symbols.definitions) return;
-			symbols = symbols.concat(_symbols.definitions);
-			for (const ref of _symbols.definitions) {
-
-				loopChecker.add(ref.fileName + ':' + ref.textSpan.start);
-
-				const teleport = core.mapper.getTeleport(ref.fileName);
-				if (!teleport)
+	}
+	function findReferences(fileName: string, position: number): ReturnType<ts.LanguageService['findReferences']> {
+		const symbols = findWithTeleports(
+			core.mapper,
+			toGeneratedOffsets(fileName, position, data => !!data.references),
+			data => !!data.references,
+			(fileName, position) => ls.findReferences(fileName, position),
+			symbol => symbol.references,
+		);
+		return symbols.map(s => transformReferencedSymbol(s)).filter(notEmpty);
+	}
+	function getDocumentHighlights(fileName: string, position: number, filesToSearch: string[]): ReturnType<ts.LanguageService['getDocumentHighlights']> {
+		const virtualFilesToSearch = filesToSearch.map(fileName => getGeneratedFileNames(fileName, () => true)).flat();
+		const highlights = findWithTeleports(
+			core.mapper,
+			toGeneratedOffsets(fileName, position, data => !!data.references),
+			data => !!data.references,
+			(fileName, position) => ls.getDocumentHighlights(fileName, position, virtualFilesToSearch),
+			highlights => highlights.highlightSpans.map(span => ({ fileName: span.fileName ?? highlights.fileName, textSpan: span.textSpan })),
+		);
+		const spansByFileName = new Map<string, Map<string, ts.HighlightSpan>>();
+		for (const { fileName, highlightSpans } of highlights) {
+			for (const span of highlightSpans) {
+				const textSpan = transformSpan(span.fileName ?? fileName, span.textSpan);
+				if (!textSpan)
 					continue;
-
-				for (const teleOffset of teleport.findTeleports(ref.textSpan.start, data => !!data.definition)) {
-					if (loopChecker.has(ref.fileName + ':' + teleOffset))
-						continue;
-					withTeleports(ref.fileName, teleOffset);
+				if (!spansByFileName.has(textSpan.fileName)) {
+					spansByFileName.set(textSpan.fileName, new Map());
 				}
+				// teleported queries may highlight the same spans again
+				spansByFileName.get(textSpan.fileName)!.set(textSpan.textSpan.start + ':' + textSpan.textSpan.length, {
+					...span,
+					fileName: span.fileName !== undefined ? textSpan.fileName : undefined,
+					textSpan: textSpan.textSpan,
+					contextSpan: transformSpan(span.fileName ?? fileName, span.contextSpan)?.textSpan,
+				});
 			}
 		}
+		return [...spansByFileName].map(([fileName, spans]) => ({
+			fileName,
+			highlightSpans: [...spans.values()],
+		}));
 	}
-	function findReferences(fileName: string, position: number): ReturnType<ts.LanguageService['findReferences']> {
-
-		const loopChecker = new Set<string>();
-		let symbols: ts.ReferencedSymbol[] = [];
-
-		withTeleports(fileName, position);
-
-		return symbols.map(s => transformReferencedSymbol(s)).filter(notEmpty);
-
-		function withTeleports(fileName: string, position: number) {
-			if (loopChecker.has(fileName + ':' + position))
-				return;
-			loopChecker.add(fileName + ':' + position);
-			const _symbols = ls.findReferences(fileName, position);
-			if (!_symbols) return;
-			symbols = symbols.concat(_symbols);
-			for (const symbol of _symbols) {
-				for (const ref of symbol.references) {
-
-					loopChecker.add(ref.fileName + ':' + ref.textSpan.start);
 
-					const teleport = core.mapper.getTeleport(ref.fileName);
-					if (!teleport)
-						continue;
-
-					for (const telePos of teleport.findTeleports(ref.textSpan.start, data => !!data.references)) {
-						if (loopChecker.has(ref.fileName + ':' + telePos))
-							continue;
-						withTeleports(ref.fileName, telePos);
+	// source to generated
+	function getGeneratedFileNames(fileName: string, filter: (capabilities: embedded.DocumentCapabilities) => boolean = capabilities => !!capabilities.codeAction) {
+		const file = core.mapper.get(fileName)?.[1];
+		if (!file) {
+			return [fileName];
+		}
+		const fileNames: string[] = [];
+		embedded.forEachEmbeddeds(file, embedded => {
+			if (embedded.kind && filter(embedded.capabilities)) {
+				fileNames.push(embedded.fileName);
+			}
+		});
+		return fileNames;
+	}
+	function toGeneratedOffsets(fileName: string, position: number, filter: (data: embedded.PositionCapabilities) => boolean) {
+		const file = core.mapper.get(fileName)?.[1];
+		if (!file) {
+			return [[fileName, position] as const];
+		}
+		const offsets: (readonly [string, number])[] = [];
+		embedded.forEachEmbeddeds(file, embedded => {
+			if (embedded.kind) {
+				for (const [offset, mapping] of core.mapper.getSourceMap(embedded).toGeneratedOffsets(position)) {
+					if (filter(mapping.data)) {
+						offsets.push([embedded.fileName, offset]);
 					}
 				}
 			}
+		});
+		return offsets;
+	}
+	function toGeneratedRanges(fileName: string, start: number, end: number) {
+		const file = core.mapper.get(fileName)?.[1];
+		if (!file) {
+			return [[fileName, start, end] as const];
+		}
+		const ranges: (readonly [string, number, number])[] = [];
+		embedded.forEachEmbeddeds(file, embedded => {
+			if (embedded.kind && embedded.capabilities.codeAction) {
+				const range = core.mapper.getSourceMap(embedded).toGeneratedRange(start, end, undefined, 'clip');
+				if (range) {
+					ranges.push([embedded.fileName, range[0][0], range[0][1]]);
+				}
+			}
+		});
+		return ranges;
+	}
+	function toGeneratedPositionOrRanges(fileName: string, positionOrRange: number | ts.TextRange) {
+		const [start, end] = typeof positionOrRange === 'number' ? [positionOrRange, positionOrRange] : [positionOrRange.pos, positionOrRange.end];
+		return toGeneratedRanges(fileName, start, end).map(([fileName, start, end]) => [
+			fileName,
+			typeof positionOrRange === 'number' ? start : { pos: start, end },
+		] as const);
+	}
+	function toGeneratedCodeActionCommand(command: CodeActionCommand): CodeActionCommand {
+		if (command.file === undefined)
+			return command;
+		const fileName = getGeneratedFileNames(command.file)[0];
+		if (fileName) {
+			return {
+				...command,
+				file: fileName,
+			};
 		}
+		return command;
 	}
 
 	// transforms
-	function transformFileTextChanges(changes: ts.FileTextChanges): ts.FileTextChanges | undefined {
-		const source = core.mapper.getSourceByVirtualFileName(changes.fileName);
+	/**
+	 * Returns `undefined` if any of the text changes can't be mapped to the source files.
+	 */
+	function transformFileTextChangesLossless(changes: readonly ts.FileTextChanges[]) {
+		const result = changes.map(transformFileTextChanges).flat();
+		const count = (changes: readonly ts.FileTextChanges[]) => changes.reduce((count, c) => count + c.textChanges.length, 0);
+		if (count(result) === count(changes)) {
+			return result;
+		}
+	}
+	/**
+	 * `offset` is based on the text after applying `edits`.
+	 */
+	function transformRenameLocation(fileName: string, offset: number, edits: readonly ts.FileTextChanges[], sourceEdits: readonly ts.FileTextChanges[]) {
+
+		// offset before applying edits, and the offset in the inserted text if any
+		let oldOffset = offset;
+		let insertedOffset = 0;
+		let delta = 0;
+		for (const change of getSortedTextChanges(edits, fileName)) {
+			const newStart = change.span.start + delta;
+			if (offset < newStart)
+				break;
+			if (offset <= newStart + change.newText.length) {
+				oldOffset = change.span.start;
+				insertedOffset = offset - newStart;
+				delta = 0;
+				break;
+			}
+			delta += change.newText.length - change.span.length;
+		}
+		oldOffset -= delta;
+
+		const span = transformSpan(fileName, { start: oldOffset, length: 0 });
+		if (!span)
+			return;
+
+		let sourceDelta = 0;
+		for (const change of getSortedTextChanges(sourceEdits, span.fileName)) {
+			if (change.span.start >= span.textSpan.start)
+				break;
+			sourceDelta += change.newText.length - change.span.length;
+		}
+		return {
+			fileName: span.fileName,
+			offset: span.textSpan.start + sourceDelta + insertedOffset,
+		};
+	}
+	function getSortedTextChanges(edits: readonly ts.FileTextChanges[], fileName: string) {
+		return edits
+			.filter(changes => changes.fileName === fileName)
+			.map(changes => changes.textChanges)
+			.flat()
+			.sort((a, b) => a.span.start - b.span.start);
+	}
+	function transformCodeActionCommand(command: CodeActionCommand): CodeActionCommand {
+		if (command.file === undefined)
+			return command;
+		const source = core.mapper.getSourceByVirtualFileName(command.file);
 		if (source) {
 			return {
-				...changes,
-				fileName: source[0],
-				textChanges: changes.textChanges.map(c => {
-					const span = transformSpan(changes.fileName, c.span);
-					if (span) {
-						return {
-							...c,
-							span: span.textSpan,
-						};
-					}
-				}).filter(notEmpty),
+				...command,
+				file: source[0],
 			};
 		}
+		return command;
+	}
+	function transformFileTextChanges(changes: ts.FileTextChanges): ts.FileTextChanges[] {
+		const source = core.mapper.getSourceByVirtualFileName(changes.fileName);
+		if (source) {
+			// text changes may belong to different source files
+			const changesByFileName = new Map<string, ts.TextChange[]>([[source[0], []]]);
+			for (const c of changes.textChanges) {
+				const span = transformSpan(changes.fileName, c.span);
+				if (span) {
+					if (!changesByFileName.has(span.fileName)) {
+						changesByFileName.set(span.fileName, []);
+					}
+					changesByFileName.get(span.fileName)!.push({
+						...c,
+						span: span.textSpan,
+					});
+				}
+			}
+			return [...changesByFileName].map(([fileName, textChanges]) => ({
+				...changes,
+				fileName,
+				textChanges,
+			}));
+		}
 		else {
-			return changes;
+			return [changes];
 		}
 	}
+	function transformCallHierarchyItem(item: ts.CallHierarchyItem): ts.CallHierarchyItem | undefined {
+		const source = core.mapper.getSourceByVirtualFileName(item.file);
+		if (!source) {
+			return item; // not virtual file
+		}
+		if (
+			(item.kind === ts.ScriptElementKind.scriptElement || item.kind === ts.ScriptElementKind.moduleElement)
+			&& item.selectionSpan.start === 0 && item.selectionSpan.length === 0
+		) {
+			// the virtual file itself
+			return {
+				...item,
+				name: item.name === item.file ? source[0] : path.basename(source[0]),
+				file: source[0],
+				span: { start: 0, length: source[1].getLength() },
+				selectionSpan: { start: 0, length: 0 },
+			};
+		}
+		const selectionSpan = transformSpan(item.file, item.selectionSpan);
+		if (!selectionSpan) {
+			return;
+		}
+		const span = transformSpan(item.file, item.span);
+		return {
+			...item,
+			file: selectionSpan.fileName,
+			// whole source file if the declaration is partly generated
+			span: span?.fileName === selectionSpan.fileName ? span.textSpan : {
+				start: 0,
+				length: (core.mapper.get(selectionSpan.fileName)?.[0] ?? source[1]).getLength(),
+			},
+			selectionSpan: selectionSpan.textSpan,
+		};
+	}
 	function transformReferencedSymbol(symbol: ts.ReferencedSymbol): ts.ReferencedSymbol | undefined {
 		const definition = transformDocumentSpanLike(symbol.definition);
 		const references = symbol.references.map(r => transformDocumentSpanLike(r)).filter(notEmpty);
@@ -287,16 +730,17 @@ export function createLanguageService(host: embedded.LanguageServiceHost, mods:
 		if (!textSpan) return;
 		const source = core.mapper.getSourceByVirtualFileName(fileName);
 		if (source) {
-			const map = core.mapper.getSourceMap(source[2]);
-			const sourceLoc = map.toSourceOffset(textSpan.start);
-			if (sourceLoc) {
-				return {
-					fileName: source[0],
-					textSpan: {
-						start: sourceLoc[0],
-						length: textSpan.length,
-					},
-				};
+			for (const [sourceFileName, map] of core.mapper.getSourceMaps(source[2])) {
+				const sourceRange = map.toSourceRange(textSpan.start, textSpan.start + textSpan.length);
+				if (sourceRange) {
+					return {
+						fileName: sourceFileName,
+						textSpan: {
+							start: sourceRange[0][0],
+							length: sourceRange[0][1] - sourceRange[0][0],
+						},
+					};
+				}
 			}
 		}
 		else {
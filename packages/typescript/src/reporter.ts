@@ -0,0 +1,284 @@
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import { posix as path } from 'path';
+
+export type DiagnosticsFormat = 'pretty' | 'plain' | 'json' | 'sarif';
+
+export interface DiagnosticsReporterOptions {
+	format?: DiagnosticsFormat,
+	/**
+	 * File names are reported relative to this directory.
+	 */
+	currentDirectory: string,
+	newLine?: string,
+	/**
+	 * Tool name of the SARIF log.
+	 */
+	toolName?: string,
+}
+
+interface Position {
+	/**
+	 * 1-based
+	 */
+	line: number,
+	/**
+	 * 1-based
+	 */
+	column: number,
+}
+
+interface DiagnosticLocation {
+	fileName: string,
+	start: Position,
+	end: Position,
+}
+
+const gutterStyle = '\u001b[7m';
+const reset = '\u001b[0m';
+const grey = '\u001b[90m';
+const red = '\u001b[91m';
+const yellow = '\u001b[93m';
+const blue = '\u001b[94m';
+const cyan = '\u001b[96m';
+
+/**
+ * Format diagnostics returned by the programs of `createLanguageService()`.
+ * Locations and code frames are computed from `diagnostic.file.text`, so diagnostics mapped to embedded language sources
+ * and the `relatedInformation` of them are reported with the original source text.
+ */
+export function formatDiagnostics(
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+	diagnostics: readonly ts.Diagnostic[],
+	options: DiagnosticsReporterOptions,
+) {
+
+	const newLine = options.newLine ?? '\n';
+	const lineStartsCache = new Map<string, number[]>();
+
+	switch (options.format ?? 'pretty') {
+		case 'pretty': return diagnostics.map(formatPretty).join('');
+		case 'plain': return diagnostics.map(formatPlain).join('');
+		case 'json': return JSON.stringify(diagnostics.map(toJson), null, 2);
+		case 'sarif': return JSON.stringify(toSarif(), null, 2);
+	}
+
+	function formatPlain(diagnostic: ts.Diagnostic) {
+		let output = '';
+		const location = getLocation(diagnostic);
+		if (location) {
+			output += `${getRelativeFileName(location.fileName)}(${location.start.line},${location.start.column}): `;
+		}
+		output += `${getCategoryName(diagnostic.category)} TS${diagnostic.code}: ${getMessageText(diagnostic)}`;
+		output += newLine;
+		return output;
+	}
+
+	function formatPretty(diagnostic: ts.Diagnostic) {
+		let output = '';
+		const location = getLocation(diagnostic);
+		if (location) {
+			output += formatLocation(location);
+			output += ' - ';
+		}
+		output += color(getCategoryName(diagnostic.category), getCategoryColor(diagnostic.category));
+		output += color(` TS${diagnostic.code}: `, grey);
+		output += getMessageText(diagnostic);
+		if (location) {
+			output += newLine;
+			output += formatCodeFrame(diagnostic.file!.text, location, '', getCategoryColor(diagnostic.category));
+		}
+		if (diagnostic.relatedInformation) {
+			output += newLine;
+			for (const info of diagnostic.relatedInformation) {
+				const location = getLocation(info);
+				if (location) {
+					output += newLine;
+					output += '  ' + formatLocation(location);
+					output += formatCodeFrame(info.file!.text, location, '    ', cyan);
+				}
+				output += newLine;
+				output += '    ' + getMessageText(info);
+			}
+		}
+		output += newLine;
+		return output;
+	}
+
+	function formatLocation(location: DiagnosticLocation) {
+		return color(getRelativeFileName(location.fileName), cyan)
+			+ ':' + color(location.start.line.toString(), yellow)
+			+ ':' + color(location.start.column.toString(), yellow);
+	}
+
+	function formatCodeFrame(text: string, location: DiagnosticLocation, indent: string, squiggleColor: string) {
+
+		const lineStarts = getLineStarts(text);
+		const firstLine = location.start.line - 1;
+		const lastLine = location.end.line - 1;
+		// show the first 2 and last 2 lines if the range spans over 5 lines
+		const hasMoreThanFiveLines = lastLine - firstLine >= 4;
+		const gutterWidth = Math.max((lastLine + 1).toString().length, hasMoreThanFiveLines ? 3 : 0);
+
+		let output = '';
+
+		for (let i = firstLine; i <= lastLine; i++) {
+			output += newLine;
+			if (hasMoreThanFiveLines && firstLine + 1 < i && i < lastLine - 1) {
+				output += indent + color('...'.padStart(gutterWidth), gutterStyle) + ' ' + newLine;
+				i = lastLine - 1;
+			}
+			const lineContent = text
+				.substring(lineStarts[i], i + 1 < lineStarts.length ? lineStarts[i + 1] : text.length)
+				.trimEnd()
+				.replace(/\t/g, ' ');
+			output += indent + color((i + 1).toString().padStart(gutterWidth), gutterStyle) + ' ' + lineContent + newLine;
+			output += indent + color(''.padStart(gutterWidth), gutterStyle) + ' ' + squiggleColor;
+			if (i === firstLine) {
+				const lastChar = i === lastLine ? location.end.column - 1 : undefined;
+				output += lineContent.substring(0, location.start.column - 1).replace(/\S/g, ' ');
+				output += lineContent.slice(location.start.column - 1, lastChar).replace(/./g, '~');
+			}
+			else if (i === lastLine) {
+				output += lineContent.substring(0, location.end.column - 1).replace(/./g, '~');
+			}
+			else {
+				output += lineContent.replace(/./g, '~');
+			}
+			output += reset;
+		}
+
+		return output;
+	}
+
+	function toJson(diagnostic: ts.Diagnostic) {
+		return {
+			...toJsonRelatedInformation(diagnostic),
+			category: getCategoryName(diagnostic.category),
+			code: diagnostic.code,
+			relatedInformation: diagnostic.relatedInformation?.map(toJsonRelatedInformation),
+		};
+	}
+
+	function toJsonRelatedInformation(info: ts.DiagnosticRelatedInformation) {
+		const location = getLocation(info);
+		return {
+			fileName: location ? getRelativeFileName(location.fileName) : undefined,
+			start: location?.start,
+			end: location?.end,
+			message: getMessageText(info),
+		};
+	}
+
+	function toSarif() {
+		const ruleIds = new Set(diagnostics.map(diagnostic => `TS${diagnostic.code}`));
+		return {
+			$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+			version: '2.1.0',
+			runs: [{
+				tool: {
+					driver: {
+						name: options.toolName ?? 'tsc',
+						rules: [...ruleIds].map(id => ({ id })),
+					},
+				},
+				results: diagnostics.map(diagnostic => ({
+					ruleId: `TS${diagnostic.code}`,
+					level: getSarifLevel(diagnostic.category),
+					message: { text: getMessageText(diagnostic) },
+					locations: toSarifLocations(diagnostic),
+					relatedLocations: diagnostic.relatedInformation?.map((info, id) => ({
+						id,
+						message: { text: getMessageText(info) },
+						...toSarifLocations(info)[0],
+					})),
+				})),
+			}],
+		};
+	}
+
+	function toSarifLocations(info: ts.DiagnosticRelatedInformation) {
+		const location = getLocation(info);
+		if (!location)
+			return [];
+		return [{
+			physicalLocation: {
+				artifactLocation: { uri: getRelativeFileName(location.fileName) },
+				region: {
+					startLine: location.start.line,
+					startColumn: location.start.column,
+					endLine: location.end.line,
+					endColumn: location.end.column,
+				},
+			},
+		}];
+	}
+
+	function getLocation(info: ts.DiagnosticRelatedInformation): DiagnosticLocation | undefined {
+		if (!info.file || info.start === undefined)
+			return;
+		const text = info.file.text;
+		return {
+			fileName: info.file.fileName,
+			start: getPosition(text, info.start),
+			end: getPosition(text, info.start + (info.length ?? 0)),
+		};
+	}
+
+	function getPosition(text: string, offset: number): Position {
+		const lineStarts = getLineStarts(text);
+		let line = 0;
+		while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+			line++;
+		}
+		return {
+			line: line + 1,
+			column: offset - lineStarts[line] + 1,
+		};
+	}
+
+	function getLineStarts(text: string) {
+		let lineStarts = lineStartsCache.get(text);
+		if (!lineStarts) {
+			lineStarts = [0];
+			for (let i = 0; i < text.length; i++) {
+				if (text[i] === '\n' || (text[i] === '\r' && text[i + 1] !== '\n')) {
+					lineStarts.push(i + 1);
+				}
+			}
+			lineStartsCache.set(text, lineStarts);
+		}
+		return lineStarts;
+	}
+
+	function getRelativeFileName(fileName: string) {
+		return path.relative(options.currentDirectory, fileName);
+	}
+
+	function getMessageText(info: ts.DiagnosticRelatedInformation) {
+		return ts.flattenDiagnosticMessageText(info.messageText, newLine);
+	}
+
+	function getCategoryName(category: ts.DiagnosticCategory) {
+		return ts.DiagnosticCategory[category].toLowerCase();
+	}
+
+	function getCategoryColor(category: ts.DiagnosticCategory) {
+		switch (category) {
+			case ts.DiagnosticCategory.Error: return red;
+			case ts.DiagnosticCategory.Warning: return yellow;
+			default: return blue;
+		}
+	}
+
+	function getSarifLevel(category: ts.DiagnosticCategory) {
+		switch (category) {
+			case ts.DiagnosticCategory.Error: return 'error';
+			case ts.DiagnosticCategory.Warning: return 'warning';
+			default: return 'note';
+		}
+	}
+
+	function color(text: string, style: string) {
+		return style + text + reset;
+	}
+}
@@ -0,0 +1,163 @@
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import type * as embedded from '@volar/language-core';
+import { createLanguageService } from './index';
+
+export interface TsServerPluginOptions {
+	/**
+	 * Extensions of the source files, e.g. `['.svelte']`
+	 */
+	extensions: string[],
+}
+
+const proxiedMethods = new Set<keyof ts.LanguageService>([
+	'getSyntacticDiagnostics',
+	'getSemanticDiagnostics',
+	'getSuggestionDiagnostics',
+	'getEncodedSemanticClassifications',
+	'getCompletionsAtPosition',
+	'getCompletionEntryDetails',
+	'getCompletionEntrySymbol',
+	'getQuickInfoAtPosition',
+	'getSignatureHelpItems',
+	'getRenameInfo',
+	'findRenameLocations',
+	'getDefinitionAtPosition',
+	'getDefinitionAndBoundSpan',
+	'getTypeDefinitionAtPosition',
+	'getImplementationAtPosition',
+	'getReferencesAtPosition',
+	'findReferences',
+	'getDocumentHighlights',
+	'prepareCallHierarchy',
+	'provideCallHierarchyIncomingCalls',
+	'provideCallHierarchyOutgoingCalls',
+	'getEditsForFileRename',
+	'getCodeFixesAtPosition',
+	'getCombinedCodeFix',
+	'applyCodeActionCommand',
+	'getApplicableRefactors',
+	'getEditsForRefactor',
+	'organizeImports',
+]);
+
+/**
+ * Create a tsserver plugin that makes the source files of `extensions` virtual `.ts` files of the configured projects,
+ * so that cross-file features of TS / JS files work with them.
+ */
+export function createTsServerPluginFactory(
+	getLanguageModules: (ts: typeof import('typescript/lib/tsserverlibrary'), info: ts.server.PluginCreateInfo) => embedded.LanguageModule[],
+	options: TsServerPluginOptions,
+): ts.server.PluginModuleFactory {
+
+	return modules => {
+
+		const { typescript: ts } = modules;
+		const externalFiles = new WeakMap<ts.server.Project, string[]>();
+		const extraFileExtensions: ts.FileExtensionInfo[] = options.extensions.map(extension => ({
+			extension: extension.substring(1),
+			isMixedContent: true,
+			scriptKind: ts.ScriptKind.Deferred,
+		}));
+		const pluginModule: ts.server.PluginModule = {
+			create(info) {
+
+				const getScriptKind = info.project.getScriptKind.bind(info.project);
+				info.project.getScriptKind = fileName => {
+					if (isSourceFile(fileName)) {
+						return ts.ScriptKind.Deferred;
+					}
+					return getScriptKind(fileName);
+				};
+
+				const host: embedded.LanguageServiceHost = {
+					getNewLine: () => info.project.getNewLine(),
+					useCaseSensitiveFileNames: () => info.project.useCaseSensitiveFileNames(),
+					readFile: path => info.project.readFile(path),
+					writeFile: (path, content) => info.project.writeFile(path, content),
+					fileExists: path => info.project.fileExists(path),
+					directoryExists: path => info.project.directoryExists(path),
+					getDirectories: path => info.project.getDirectories(path),
+					readDirectory: (path, extensions, exclude, include, depth) => info.project.readDirectory(path, extensions, exclude, include, depth),
+					realpath: info.project.realpath ? path => info.project.realpath!(path) : undefined,
+					getCompilationSettings: () => info.project.getCompilationSettings(),
+					getCurrentDirectory: () => info.project.getCurrentDirectory(),
+					getDefaultLibFileName: () => info.project.getDefaultLibFileName(),
+					getProjectVersion: () => info.project.getProjectVersion(),
+					getProjectReferences: () => info.project.getProjectReferences(),
+					// include the source files returned by getExternalFiles()
+					getScriptFileNames: () => info.project.getScriptFileNames(),
+					getScriptVersion: fileName => info.project.getScriptVersion(fileName),
+					getScriptSnapshot: fileName => info.project.getScriptSnapshot(fileName),
+					getTypeScriptModule: () => ts,
+				};
+				let languageService: ts.LanguageService | undefined;
+
+				return new Proxy(info.languageService, {
+					get: (target, property: keyof ts.LanguageService) => {
+						// inferred projects or no any source files of extensions yet, the source files can be added by project updates
+						if (proxiedMethods.has(property) && getExternalFiles(info.project).length) {
+							languageService ??= createLanguageService(host, getLanguageModules(ts, info));
+							return languageService[property];
+						}
+						return target[property];
+					},
+				});
+			},
+			getExternalFiles,
+		};
+		return pluginModule;
+
+		function getExternalFiles(project: ts.server.Project) {
+			let fileNames = externalFiles.get(project);
+			if (!fileNames) {
+				fileNames = readExternalFiles(project);
+				externalFiles.set(project, fileNames);
+				invalidateOnReload(project);
+			}
+			return fileNames;
+		}
+
+		function readExternalFiles(project: ts.server.Project) {
+
+			const projectName = project.getProjectName();
+
+			if (!project.fileExists(projectName)) {
+				// project name not a tsconfig path, this is a inferred project
+				return [];
+			}
+
+			const parsed = ts.getParsedCommandLineOfConfigFile(projectName, {}, {
+				useCaseSensitiveFileNames: project.useCaseSensitiveFileNames(),
+				getCurrentDirectory: () => project.getCurrentDirectory(),
+				fileExists: path => project.fileExists(path),
+				readFile: path => project.readFile(path),
+				readDirectory: (path, extensions, exclude, include, depth) => project.readDirectory(path, extensions, exclude, include, depth),
+				onUnRecoverableConfigFileDiagnostic: () => { },
+			}, undefined, undefined, extraFileExtensions);
+
+			return parsed?.fileNames.filter(isSourceFile) ?? [];
+		}
+
+		/**
+		 * The config file and wildcard directory watchers of tsserver set `pendingReload` of the project to reload its root files.
+		 * `pendingReload` is an internal `ConfigFileProgramReloadLevel`, `0` means no reload.
+		 */
+		function invalidateOnReload(project: ts.server.Project) {
+			let pendingReload = project.pendingReload;
+			Object.defineProperty(project, 'pendingReload', {
+				get: () => pendingReload,
+				set: (value: number | undefined) => {
+					if (value) {
+						externalFiles.delete(project);
+					}
+					pendingReload = value;
+				},
+				configurable: true,
+			});
+		}
+
+		function isSourceFile(fileName: string) {
+			return options.extensions.some(extension => fileName.endsWith(extension));
+		}
+	};
+}
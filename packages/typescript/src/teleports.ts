@@ -0,0 +1,61 @@
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import type * as embedded from '@volar/language-core';
+
+interface SpanLike {
+	fileName: string,
+	textSpan: ts.TextSpan,
+}
+
+/**
+ * Collect `find()` results from `starts`, and from the teleported ranges of the result spans recursively.
+ * Each span is expanded and each teleported range is queried at most once, so cyclic teleports terminate.
+ */
+export function findWithTeleports<T>(
+	mapper: embedded.EmbeddedLanguageContext['mapper'],
+	starts: Iterable<readonly [string, number]>,
+	filter: (data: embedded.TeleportCapabilities) => boolean,
+	find: (fileName: string, position: number) => readonly T[] | undefined,
+	getSpans: (result: T) => Iterable<SpanLike>,
+) {
+
+	const expanded = new Set<string>();
+	const queried = new Set<string>();
+	const queue: (readonly [string, number])[] = [];
+	const results: T[] = [];
+
+	for (const [fileName, position] of starts) {
+		enqueue(fileName, position, position);
+	}
+
+	while (queue.length) {
+		const [fileName, position] = queue.shift()!;
+		for (const result of find(fileName, position) ?? []) {
+			results.push(result);
+			for (const { fileName, textSpan } of getSpans(result)) {
+				const start = textSpan.start;
+				const end = textSpan.start + textSpan.length;
+				const key = fileName + ':' + start + ':' + end;
+				if (expanded.has(key))
+					continue;
+				expanded.add(key);
+				const teleport = mapper.getTeleport(fileName);
+				if (!teleport)
+					continue;
+				for (const [teleportStart, teleportEnd] of teleport.findTeleportRanges(start, end, filter)) {
+					enqueue(fileName, teleportStart, teleportEnd);
+				}
+			}
+		}
+	}
+
+	return results;
+
+	function enqueue(fileName: string, start: number, end: number) {
+		const key = fileName + ':' + start + ':' + end;
+		// results of the range are already collected
+		if (queried.has(key) || expanded.has(key))
+			return;
+		queried.add(key);
+		queue.push([fileName, start]);
+	}
+}
@@ -0,0 +1,65 @@
+import 'typescript/lib/tsserverlibrary';
+
+declare module 'typescript/lib/tsserverlibrary' {
+
+	interface SourceFile {
+		/**
+		 * @internal
+		 */
+		path: Path;
+		/**
+		 * @internal
+		 */
+		resolvedPath: Path;
+	}
+
+	interface Program {
+		/**
+		 * @internal
+		 */
+		useCaseSensitiveFileNames(): boolean;
+	}
+
+	interface BuilderProgram {
+		/**
+		 * @internal
+		 */
+		getProgramOrUndefined(): Program | undefined;
+	}
+
+	namespace server {
+		interface Project {
+			/**
+			 * @internal `ConfigFileProgramReloadLevel`
+			 */
+			pendingReload: number | undefined;
+		}
+	}
+
+	/**
+	 * @internal
+	 */
+	const Diagnostics: {
+		You_cannot_rename_this_element: DiagnosticMessage;
+	};
+
+	/**
+	 * @internal
+	 */
+	function toPath(fileName: string, basePath: string | undefined, getCanonicalFileName: (fileName: string) => string): Path;
+
+	/**
+	 * @internal
+	 */
+	function createGetCanonicalFileName(useCaseSensitiveFileNames: boolean): (fileName: string) => string;
+
+	/**
+	 * @internal
+	 */
+	function getLocaleSpecificMessage(message: DiagnosticMessage): string;
+
+	/**
+	 * @internal
+	 */
+	function generateDjb2Hash(data: string): string;
+}
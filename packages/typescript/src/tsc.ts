@@ -0,0 +1,248 @@
+import type * as ts from 'typescript/lib/tsserverlibrary';
+import type * as embedded from '@volar/language-core';
+import fs = require('fs');
+import * as path from 'path';
+import { createLanguageService } from './index';
+import { DiagnosticsFormat, formatDiagnostics } from './reporter';
+
+type TscProgram = ts.Program & { __volar: TscProgramContext; };
+
+interface TscProgramContext {
+	projectVersion: number,
+	options: ts.CreateProgramOptions,
+}
+
+let tsLib: typeof import('typescript/lib/tsserverlibrary') | undefined;
+let createProgram: ReturnType<typeof createTscProgramProxy> | undefined;
+let reportFormat: DiagnosticsFormat | undefined;
+let reportedDiagnostics: ts.Diagnostic[] | undefined;
+
+/**
+ * Create a replacement of `ts.createProgram` for tsc, which type checks and emits the virtual files of `languageModules`.
+ */
+export function createTscProgramProxy(
+	languageModules: embedded.LanguageModule[],
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+) {
+
+	return (
+		options: ts.CreateProgramOptions, // rootNamesOrOptions: readonly string[] | CreateProgramOptions,
+		_options?: ts.CompilerOptions,
+		_host?: ts.CompilerHost,
+		_oldProgram?: ts.Program,
+		_configFileParsingDiagnostics?: readonly ts.Diagnostic[],
+	) => {
+
+		if (!options.host)
+			throw toThrow('!options.host');
+
+		let program = options.oldProgram as TscProgram | undefined;
+
+		if (!program) {
+
+			const ctx: TscProgramContext = {
+				projectVersion: 0,
+				options,
+			};
+			const scripts = new Map<string, {
+				projectVersion: number,
+				modifiedTime: number,
+				scriptSnapshot: ts.IScriptSnapshot,
+				version: string,
+			}>();
+			const lsHost = new Proxy(<embedded.LanguageServiceHost>{
+				resolveModuleNames: undefined, // avoid failed with tsc built-in fileExists
+				getCompilationSettings: () => ctx.options.options,
+				getScriptFileNames: () => {
+					return ctx.options.rootNames as string[];
+				},
+				getScriptVersion,
+				getScriptSnapshot,
+				getProjectVersion: () => {
+					return ctx.projectVersion.toString();
+				},
+				getProjectReferences: () => ctx.options.projectReferences,
+
+				getTypeScriptModule: () => ts,
+				isTsc: true,
+			}, {
+				get: (target, property) => {
+					if (property in target) {
+						return target[property as keyof embedded.LanguageServiceHost];
+					}
+					return ctx.options.host![property as keyof ts.CompilerHost];
+				},
+			});
+			const ls = createLanguageService(lsHost, languageModules);
+
+			program = ls.getProgram() as TscProgram;
+			program.__volar = ctx;
+
+			function getScriptVersion(fileName: string) {
+				return getScript(fileName)?.version ?? '';
+			}
+			function getScriptSnapshot(fileName: string) {
+				return getScript(fileName)?.scriptSnapshot;
+			}
+			function getScript(fileName: string) {
+
+				const script = scripts.get(fileName);
+				if (script?.projectVersion === ctx.projectVersion) {
+					return script;
+				}
+
+				const modifiedTime = ts.sys.getModifiedTime?.(fileName)?.valueOf() ?? 0;
+				if (script?.modifiedTime === modifiedTime) {
+					return script;
+				}
+
+				if (ctx.options.host!.fileExists(fileName)) {
+					const fileContent = ctx.options.host!.readFile(fileName);
+					if (fileContent !== undefined) {
+						const script = {
+							projectVersion: ctx.projectVersion,
+							modifiedTime,
+							scriptSnapshot: ts.ScriptSnapshot.fromString(fileContent),
+							version: ctx.options.host!.createHash?.(fileContent) ?? ts.generateDjb2Hash(fileContent),
+						};
+						scripts.set(fileName, script);
+						return script;
+					}
+				}
+			}
+		}
+		else {
+			program.__volar.options = options;
+			program.__volar.projectVersion++;
+		}
+
+		for (const rootName of options.rootNames) {
+			// register file watchers
+			options.host.getSourceFile(rootName, ts.ScriptTarget.ESNext);
+		}
+
+		// builder programs return the old builder as is if the program object is the same
+		return new Proxy(program, {}) as ts.Program;
+	};
+}
+
+/**
+ * Create a `createProgram` for `ts.createIncrementalProgram()`, `ts.createSolutionBuilderHost()` and `ts.createWatchCompilerHost()`,
+ * the builder programs write and reuse `.tsbuildinfo` for the virtual files of `languageModules`.
+ */
+export function createBuilderProgramProxy(
+	languageModules: embedded.LanguageModule[],
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+): ts.CreateProgram<ts.EmitAndSemanticDiagnosticsBuilderProgram> {
+
+	const createProgram = createTscProgramProxy(languageModules, ts);
+
+	return (rootNames, options = {}, host = ts.createCompilerHost(options), oldProgram, configFileParsingDiagnostics, projectReferences) => {
+		const program = createProgram({
+			rootNames: rootNames ?? [],
+			options,
+			host,
+			oldProgram: oldProgram?.getProgramOrUndefined(),
+			configFileParsingDiagnostics,
+			projectReferences,
+		});
+		return ts.createEmitAndSemanticDiagnosticsBuilderProgram(program, host, oldProgram, configFileParsingDiagnostics);
+	};
+}
+
+/**
+ * Run tsc at `tscPath` with `createProgram` replaced by {@link createTscProgramProxy}.
+ * Command line options and exit codes are the same as tsc, plus `--format json|sarif` to write all diagnostics
+ * with {@link formatDiagnostics} when tsc exits.
+ *
+ * @param extensions extensions of the source files, e.g. `['.svelte']`
+ */
+export function runTsc(tscPath: string, extensions: string[], languageModules: embedded.LanguageModule[]) {
+
+	const readFileSync = fs.readFileSync;
+	const extensionsArray = JSON.stringify(extensions.map(ext => [ext]));
+	const formatIndex = process.argv.indexOf('--format');
+
+	if (formatIndex >= 0) {
+		const format = process.argv[formatIndex + 1];
+		if (format !== 'json' && format !== 'sarif')
+			throw toThrow(`--format must be 'json' or 'sarif'`);
+		reportFormat = format;
+		// tsc doesn't know --format, and error summaries of --pretty would break the output
+		process.argv.splice(formatIndex, 2, '--pretty', 'false');
+	}
+
+	tsLib = require(path.join(path.dirname(tscPath), 'tsserverlibrary'));
+	createProgram = createTscProgramProxy(languageModules, tsLib!);
+
+	fs.readFileSync = (...args: Parameters<typeof fs.readFileSync>) => {
+		if (args[0] === tscPath) {
+			let tsc = readFileSync(...args) as string;
+
+			// add source file extensions to allow extensions
+			tryReplace(/supportedTSExtensions = .*(?=;)/, s => s + `.concat(${extensionsArray})`);
+			tryReplace(/supportedJSExtensions = .*(?=;)/, s => s + `.concat(${extensionsArray})`);
+			tryReplace(/allSupportedExtensions = .*(?=;)/, s => s + `.concat(${extensionsArray})`);
+
+			// proxy startTracing, dumpTracingLegend
+			tryReplace(' = tracingEnabled.startTracing', ` = require(${JSON.stringify(__filename)}).loadTsLib().startTracing`);
+			tryReplace(' = tracingEnabled.dumpLegend', ` = require(${JSON.stringify(__filename)}).loadTsLib().dumpTracingLegend`);
+
+			// proxy createProgram apis
+			tryReplace(/function createProgram\(.+\) {/, s => s + ` return require(${JSON.stringify(__filename)}).createProgram(...arguments);`);
+
+			// proxy createDiagnosticReporter for --format
+			if (reportFormat) {
+				tryReplace(/function createDiagnosticReporter\(.+\) {/, s => s + ` return require(${JSON.stringify(__filename)}).createDiagnosticReporter(...arguments);`);
+			}
+
+			return tsc;
+
+			function tryReplace(search: string | RegExp, replace: string | ((substring: string) => string)) {
+				const before = tsc;
+				tsc = tsc.replace(search, replace as string);
+				const after = tsc;
+				if (after === before) {
+					throw 'Search string not found: ' + JSON.stringify(search.toString());
+				}
+			}
+		}
+		return (readFileSync as Function)(...args);
+	};
+
+	require(tscPath);
+}
+
+/**
+ * @internal called by the patched tsc
+ */
+export { createProgram };
+
+/**
+ * @internal called by the patched tsc
+ */
+export function loadTsLib() {
+	return tsLib;
+}
+
+/**
+ * @internal called by the patched tsc
+ */
+export function createDiagnosticReporter(system: ts.System): ts.DiagnosticReporter {
+	if (!reportedDiagnostics) {
+		const diagnostics: ts.Diagnostic[] = reportedDiagnostics = [];
+		process.on('exit', () => {
+			system.write(formatDiagnostics(tsLib!, diagnostics, {
+				format: reportFormat,
+				currentDirectory: system.getCurrentDirectory(),
+				newLine: system.newLine,
+			}) + system.newLine);
+		});
+	}
+	return diagnostic => reportedDiagnostics!.push(diagnostic);
+}
+
+function toThrow(msg: string) {
+	console.error(msg);
+	return msg;
+}
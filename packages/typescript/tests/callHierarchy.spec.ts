@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService } from '../out';
+
+describe(`Test call hierarchy and file rename`, () => {
+
+	const files = new Map<string, string>([
+		['/a.ts', `import { b } from './b.foo'; function a() { b(); }`],
+		['/b.foo', `export function b() { c(); } function c() { }`],
+		['/c.foo', `import { b } from './b.foo'; b();`],
+	]);
+	const languageModule = createFooLanguageModule((_, text) => {
+		const prefix = '// generated\n';
+		return {
+			text: prefix + text,
+			capabilities: {},
+			mappings: [mapSourceText(text, prefix, { references: true })],
+		};
+	});
+	const host = createTestHost(files);
+	const languageService = createLanguageService(host, [languageModule]);
+	const offsetOf = (fileName: string, text: string, nth = 0) => {
+		let offset = -1;
+		for (let i = 0; i <= nth; i++) {
+			offset = files.get(fileName)!.indexOf(text, offset + 1);
+		}
+		return offset;
+	};
+
+	it(`prepareCallHierarchy()`, () => {
+
+		const item = languageService.prepareCallHierarchy('/b.foo', offsetOf('/b.foo', 'b()'));
+
+		expect(item).toMatchObject({
+			name: 'b',
+			file: '/b.foo',
+			selectionSpan: { start: offsetOf('/b.foo', 'b()'), length: 1 },
+		});
+	});
+
+	it(`provideCallHierarchyIncomingCalls()`, () => {
+
+		const calls = languageService.provideCallHierarchyIncomingCalls('/b.foo', offsetOf('/b.foo', 'b()'));
+
+		expect(calls.map(call => [call.from.file, call.from.name, call.fromSpans]).sort()).toEqual([
+			['/a.ts', 'a', [{ start: offsetOf('/a.ts', 'b()'), length: 1 }]],
+			['/c.foo', '/c.foo', [{ start: offsetOf('/c.foo', 'b()'), length: 1 }]],
+		]);
+	});
+
+	it(`provideCallHierarchyOutgoingCalls()`, () => {
+
+		const calls = languageService.provideCallHierarchyOutgoingCalls('/b.foo', offsetOf('/b.foo', 'b()'));
+
+		expect(calls.map(call => [call.to.file, call.to.name, call.to.selectionSpan, call.fromSpans])).toEqual([
+			['/b.foo', 'c', { start: offsetOf('/b.foo', 'c()', 1), length: 1 }, [{ start: offsetOf('/b.foo', 'c()'), length: 1 }]],
+		]);
+	});
+
+	it(`getEditsForFileRename()`, () => {
+
+		const edits = languageService.getEditsForFileRename('/b.foo', '/d.foo', {}, {});
+
+		expect(edits.filter(edit => edit.textChanges.length).map(edit => [edit.fileName, edit.textChanges]).sort()).toEqual([
+			['/a.ts', [{ span: { start: offsetOf('/a.ts', './b.foo'), length: 7 }, newText: './d.foo' }]],
+			['/c.foo', [{ span: { start: offsetOf('/c.foo', './b.foo'), length: 7 }, newText: './d.foo' }]],
+		]);
+	});
+});
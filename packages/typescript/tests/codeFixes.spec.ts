@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService } from '../out';
+
+describe(`Test code fixes and refactors`, () => {
+
+	const files = new Map<string, string>([
+		// `fooo;` in the generated code is not mapped
+		['/a.foo', 'let foo = 1; fooo; export { };'],
+		['/b.foo', 'let bar = 1 + 2; barr; export { };'],
+	]);
+	const languageModule = createFooLanguageModule((fileName, text) => {
+		const prefix = fileName === '/a.foo' ? 'fooo;\n' : '\n';
+		return {
+			text: prefix + text,
+			capabilities: { codeAction: true },
+			mappings: [mapSourceText(text, prefix, {})],
+		};
+	});
+	const host = createTestHost(files);
+	const didYouMeanCode = 2552;
+
+	it(`getCodeFixesAtPosition()`, () => {
+
+		const languageService = createLanguageService(host, [languageModule]);
+		const start = files.get('/a.foo')!.indexOf('fooo');
+		const fixes = languageService.getCodeFixesAtPosition('/a.foo', start, start + 4, [didYouMeanCode], {}, {});
+
+		expect(fixes.map(fix => fix.changes)).toEqual([[{
+			fileName: '/a.foo',
+			textChanges: [{ span: { start, length: 4 }, newText: 'foo' }],
+		}]]);
+	});
+
+	it(`getCombinedCodeFix()`, () => {
+
+		const languageService = createLanguageService(host, [languageModule]);
+		const start = files.get('/b.foo')!.indexOf('barr');
+
+		expect(languageService.getCombinedCodeFix({ type: 'file', fileName: '/b.foo' }, 'fixSpelling', {}, {}).changes).toEqual([{
+			fileName: '/b.foo',
+			textChanges: [{ span: { start, length: 4 }, newText: 'bar' }],
+		}]);
+
+		// one of the edits is in generated code
+		expect(languageService.getCombinedCodeFix({ type: 'file', fileName: '/a.foo' }, 'fixSpelling', {}, {}).changes).toEqual([]);
+	});
+
+	it(`getApplicableRefactors() and getEditsForRefactor()`, () => {
+
+		const languageService = createLanguageService(host, [languageModule]);
+		const text = files.get('/b.foo')!;
+		const range = { pos: text.indexOf('1 + 2'), end: text.indexOf('1 + 2') + 5 };
+		const actions = languageService.getApplicableRefactors('/b.foo', range, {})
+			.filter(refactor => refactor.name === 'Extract Symbol')
+			.map(refactor => refactor.actions)
+			.flat();
+		const extractConstant = actions.find(action => action.name.startsWith('constant_'));
+
+		expect(extractConstant).toBeDefined();
+
+		const result = languageService.getEditsForRefactor('/b.foo', {}, range, 'Extract Symbol', extractConstant!.name, {})!;
+
+		expect(result.edits.map(edit => edit.fileName)).toEqual(['/b.foo']);
+		expect(result.renameFilename).toBe('/b.foo');
+
+		const newText = result.edits[0].textChanges.reduceRight((text, change) =>
+			text.substring(0, change.span.start) + change.newText + text.substring(change.span.start + change.span.length), text);
+		expect(newText.substring(result.renameLocation!, result.renameLocation! + 8)).toBe('newLocal');
+	});
+});
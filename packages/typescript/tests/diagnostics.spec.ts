@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticFallbackPolicy, DiagnosticMappingMetadata } from '@volar/language-core';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService } from '../out';
+
+describe(`Test diagnostic fallbacks`, () => {
+
+	const source = `let value = 1;`;
+	const check = `\nconst check: string = value;`;
+
+	function getDiagnostics(diagnosticFallback?: DiagnosticFallbackPolicy) {
+		const languageModule = createFooLanguageModule((_, text) => ({
+			text: text + check,
+			capabilities: { diagnostic: true },
+			mappings: [
+				mapSourceText(text, '', { diagnostic: true }),
+				// generated code caused by the whole source, but reports no diagnostics
+				{
+					sourceRange: [0, text.length],
+					generatedRange: [text.length, text.length + check.length],
+					data: {},
+				},
+			],
+			diagnosticFallback,
+		}));
+		const host = createTestHost(new Map([['/a.foo', source]]));
+		const program = createLanguageService(host, [languageModule]).getProgram()!;
+		return program.getSemanticDiagnostics().map(diagnostic => [
+			diagnostic.file?.fileName,
+			diagnostic.start,
+			diagnostic.length,
+			(diagnostic as DiagnosticMappingMetadata).mappingFallback,
+		]);
+	}
+
+	it(`drop unmapped diagnostics by default`, () => {
+		expect(getDiagnostics()).toEqual([]);
+	});
+
+	it(`enclosing`, () => {
+		expect(getDiagnostics({ fallbacks: ['enclosing'] })).toEqual([
+			['/a.foo', 0, source.length, 'enclosing'],
+		]);
+	});
+
+	it(`anchor`, () => {
+		expect(getDiagnostics({
+			fallbacks: ['anchor'],
+			getAnchor: () => ({ start: source.indexOf('value'), end: source.indexOf('value') + 'value'.length }),
+		})).toEqual([
+			['/a.foo', source.indexOf('value'), 'value'.length, 'anchor'],
+		]);
+	});
+
+	it(`try fallbacks in order`, () => {
+		expect(getDiagnostics({
+			fallbacks: ['anchor', 'top', 'enclosing'],
+			getAnchor: () => undefined,
+		})).toEqual([
+			['/a.foo', 0, 0, 'top'],
+		]);
+	});
+});
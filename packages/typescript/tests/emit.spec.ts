@@ -0,0 +1,94 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { LanguageModuleEmitOptions } from '@volar/language-core';
+import { fromSourceMapV3, SourceMapBase } from '@volar/source-map';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService, droppedEmitDiagnosticCode } from '../out';
+
+describe(`Test emit`, () => {
+
+	const files = new Map<string, string>([
+		['/src/App.foo', `export const foo = 1;`],
+		['/src/main.ts', `export * from './App.foo';`],
+	]);
+
+	function emit(emitOptions: LanguageModuleEmitOptions | undefined, compilerOptions: ts.CompilerOptions) {
+
+		const prefix = `// generated\n`;
+		const languageModule = createFooLanguageModule((_, text) => ({
+			text: prefix + text,
+			capabilities: {},
+			mappings: [mapSourceText(text, prefix, {})],
+		}), { emit: emitOptions });
+		const host = createTestHost(files, {
+			getCompilationSettings: () => ({ noLib: true, outDir: '/dist', rootDir: '/src', ...compilerOptions }),
+		});
+		const outputs = new Map<string, string>();
+		const program = createLanguageService(host, [languageModule]).getProgram()!;
+		const result = program.emit(undefined, (fileName, text) => outputs.set(fileName, text));
+
+		return { outputs, result };
+	}
+
+	it(`declaration files only by default`, () => {
+
+		const { outputs } = emit(undefined, { declaration: true });
+
+		expect([...outputs.keys()].sort()).toEqual([
+			'/dist/App.foo.d.ts',
+			'/dist/main.d.ts',
+			'/dist/main.js',
+		]);
+	});
+
+	it(`report source files that js is not emitted for`, () => {
+
+		const { outputs, result } = emit(undefined, {});
+
+		expect([...outputs.keys()]).toEqual(['/dist/main.js']);
+		expect(result.diagnostics.map(diagnostic => [diagnostic.category, diagnostic.code, diagnostic.file?.fileName, diagnostic.messageText])).toEqual([[
+			ts.DiagnosticCategory.Error,
+			droppedEmitDiagnosticCode,
+			'/src/App.foo',
+			`JavaScript of '/src/App.foo' is not emitted because its language module only emits declaration files, enable 'emitDeclarationOnly' or 'noEmit'.`,
+		]]);
+		expect(emit(undefined, { declaration: true, emitDeclarationOnly: true }).result.diagnostics).toEqual([]);
+	});
+
+	it(`emit js`, () => {
+
+		const { outputs, result } = emit({ js: true }, {});
+
+		expect(outputs.get('/dist/App.foo.js')).toContain('exports.foo = 1;');
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	it(`declaration map`, () => {
+
+		const { outputs } = emit(undefined, { declaration: true, declarationMap: true, emitDeclarationOnly: true });
+		const dts = outputs.get('/dist/App.foo.d.ts')!;
+		const sourceMap = JSON.parse(outputs.get('/dist/App.foo.d.ts.map')!);
+
+		expect(sourceMap.sources).toEqual(['../src/App.foo']);
+
+		const map = new SourceMapBase(fromSourceMapV3(sourceMap, dts, undefined, () => files.get('/src/App.foo')));
+		expect(map.toSourceOffset(dts.indexOf('foo'))?.[0]).toBe(files.get('/src/App.foo')!.indexOf('foo'));
+	});
+
+	it(`output file names`, () => {
+
+		const { outputs, result } = emit({
+			getOutputFileName: (_sourceFileName, outputFileName) => outputFileName.replace('.foo.', '.'),
+		}, { declaration: true, declarationMap: true, emitDeclarationOnly: true, listEmittedFiles: true });
+
+		expect([...outputs.keys()].sort()).toEqual([
+			'/dist/App.d.ts',
+			'/dist/App.d.ts.map',
+			'/dist/main.d.ts',
+			'/dist/main.d.ts.map',
+		]);
+		expect(outputs.get('/dist/App.d.ts')).toContain('//# sourceMappingURL=App.d.ts.map');
+		expect(JSON.parse(outputs.get('/dist/App.d.ts.map')!).file).toBe('App.d.ts');
+		expect(result.emittedFiles?.sort()).toEqual([...outputs.keys()].sort());
+	});
+});
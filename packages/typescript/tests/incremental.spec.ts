@@ -0,0 +1,155 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createBuilderProgramProxy } from '../out';
+
+describe(`Test incremental builds`, () => {
+
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text,
+		capabilities: { diagnostic: true },
+		mappings: [mapSourceText(text, '', { diagnostic: true })],
+	}));
+
+	const globals = `interface Array<T> { } interface Boolean { } interface Function { } interface IArguments { } interface Number { } interface Object { } interface RegExp { } interface String { }`;
+
+	function createSystem(files: Map<string, string>, writes: string[]): ts.System {
+		const modifiedTimes = new Map<string, number>();
+		let now = 0;
+		return {
+			...ts.sys,
+			useCaseSensitiveFileNames: true,
+			getCurrentDirectory: () => '/',
+			readFile: fileName => files.get(fileName),
+			writeFile: (fileName, text) => {
+				files.set(fileName, text);
+				modifiedTimes.set(fileName, ++now);
+				writes.push(fileName);
+			},
+			fileExists: fileName => files.has(fileName),
+			directoryExists: dirName => [...files.keys()].some(fileName => fileName.startsWith(dirName + '/')),
+			getModifiedTime: fileName => files.has(fileName) ? new Date(modifiedTimes.get(fileName) ?? 0) : undefined,
+			setModifiedTime: (fileName, time) => modifiedTimes.set(fileName, time.valueOf()),
+			createDirectory: () => { },
+			deleteFile: fileName => files.delete(fileName),
+			createHash: undefined,
+			write: () => { },
+		};
+	}
+
+	it(`reuse .tsbuildinfo of incremental programs`, () => {
+
+		const files = new Map([
+			['/src/a.foo', `export const a: string = 1;`],
+			['/src/main.ts', `export * from './a.foo';`],
+		]);
+		const options: ts.CompilerOptions = {
+			incremental: true,
+			declaration: true,
+			noLib: true,
+			rootDir: '/src',
+			outDir: '/dist',
+			tsBuildInfoFile: '/dist/tsconfig.tsbuildinfo',
+		};
+		const build = () => {
+			const writes: string[] = [];
+			const system = createSystem(files, writes);
+			const host = ts.createIncrementalCompilerHost(options, system);
+			const builder = ts.createIncrementalProgram({
+				rootNames: ['/src/a.foo', '/src/main.ts'],
+				options,
+				host,
+				createProgram: createBuilderProgramProxy([languageModule], ts),
+			});
+			const diagnostics = builder.getSemanticDiagnostics();
+			builder.emit();
+			return {
+				writes: writes.sort(),
+				diagnostics: diagnostics.map(diagnostic => [diagnostic.file?.fileName, diagnostic.start]),
+			};
+		};
+
+		expect(build()).toEqual({
+			writes: [
+				'/dist/a.foo.d.ts',
+				'/dist/main.d.ts',
+				'/dist/main.js',
+				'/dist/tsconfig.tsbuildinfo',
+			],
+			diagnostics: [['/src/a.foo', 13]],
+		});
+		expect(JSON.parse(files.get('/dist/tsconfig.tsbuildinfo')!).program.fileNames).toEqual([
+			'../src/a.foo.ts',
+			'../src/main.ts',
+		]);
+
+		// diagnostics are restored from .tsbuildinfo
+		expect(build()).toEqual({
+			writes: [],
+			diagnostics: [['/src/a.foo', 13]],
+		});
+
+		files.set('/src/a.foo', `export const a: string = '';`);
+
+		expect(build()).toEqual({
+			writes: [
+				'/dist/a.foo.d.ts',
+				'/dist/tsconfig.tsbuildinfo',
+			],
+			diagnostics: [],
+		});
+	});
+
+	it(`build project references with solution builder`, () => {
+
+		const files = new Map([
+			['/lib/tsconfig.json', JSON.stringify({ compilerOptions: { composite: true, noLib: true, outDir: 'dist', emitDeclarationOnly: true }, files: ['globals.d.ts', 'a.foo'] })],
+			['/lib/globals.d.ts', globals],
+			['/lib/a.foo', `export const a = 1;`],
+			['/app/tsconfig.json', JSON.stringify({ compilerOptions: { composite: true, noLib: true, outDir: 'dist' }, files: ['globals.d.ts', 'main.ts'], references: [{ path: '../lib' }] })],
+			['/app/globals.d.ts', globals],
+			['/app/main.ts', `import { a } from '../lib/a.foo';\nexport const b: number = a;`],
+		]);
+		const build = () => {
+			const writes: string[] = [];
+			const system = createSystem(files, writes);
+			const host = ts.createSolutionBuilderHost(system, createBuilderProgramProxy([languageModule], ts));
+			const exitStatus = ts.createSolutionBuilder(host, ['/app'], {}).build();
+			return { exitStatus, writes: writes.sort() };
+		};
+
+		expect(build()).toEqual({
+			exitStatus: ts.ExitStatus.Success,
+			writes: [
+				'/app/dist/main.d.ts',
+				'/app/dist/main.js',
+				'/app/dist/tsconfig.tsbuildinfo',
+				'/lib/dist/a.foo.d.ts',
+				'/lib/dist/tsconfig.tsbuildinfo',
+			],
+		});
+		// up to date
+		expect(build()).toEqual({
+			exitStatus: ts.ExitStatus.Success,
+			writes: [],
+		});
+	});
+
+	it(`report program diagnostics of source files`, () => {
+
+		const source = `/// <reference path="./missing.d.ts" />\nexport const a = 1;`;
+		const files = new Map([
+			['/tsconfig.json', JSON.stringify({ compilerOptions: { composite: true, noLib: true, outDir: 'dist' }, files: ['globals.d.ts', 'a.foo'] })],
+			['/globals.d.ts', globals],
+			['/a.foo', source],
+		]);
+		const diagnostics: ts.Diagnostic[] = [];
+		const host = ts.createSolutionBuilderHost(createSystem(files, []), createBuilderProgramProxy([languageModule], ts), diagnostic => diagnostics.push(diagnostic));
+		ts.createSolutionBuilder(host, ['/'], {}).build();
+
+		// File '/missing.d.ts' not found.
+		expect(diagnostics.map(diagnostic => [diagnostic.file?.fileName, diagnostic.start, diagnostic.code])).toEqual([
+			['/a.foo', source.indexOf('./missing.d.ts'), 6053],
+		]);
+	});
+});
@@ -0,0 +1,99 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService } from '../out';
+
+describe(`Test source positions`, () => {
+
+	const text = `function add(a: number, b: number) { return a + b; } let foo = add(1, 2); foo;`;
+	const prefix = `declare let __VLS_ctx: number;\n`;
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text: prefix + text,
+		capabilities: {},
+		mappings: [
+			{
+				sourceRange: [0, text.length - 4],
+				generatedRange: [prefix.length, prefix.length + text.length - 4],
+				data: { hover: true, completion: true, semanticTokens: true },
+			},
+			// `foo;` can't be hovered
+			{
+				sourceRange: [text.length - 4, text.length],
+				generatedRange: [prefix.length + text.length - 4, prefix.length + text.length],
+				data: { completion: true, semanticTokens: true },
+			},
+		],
+	}));
+	const host = createTestHost(new Map([['/a.foo', text]]));
+	const languageService = createLanguageService(host, [languageModule]);
+
+	it(`getCompletionsAtPosition()`, () => {
+
+		const position = text.lastIndexOf('foo') + 2;
+		const result = languageService.getCompletionsAtPosition('/a.foo', position, {})!;
+
+		expect(result.optionalReplacementSpan).toEqual({ start: text.lastIndexOf('foo'), length: 3 });
+		expect(result.entries.map(entry => entry.name)).toContain('add');
+		expect(result.entries.map(entry => entry.name)).not.toContain('__VLS_ctx');
+	});
+
+	it(`getCompletionEntryDetails() and getCompletionEntrySymbol()`, () => {
+
+		const position = text.lastIndexOf('foo') + 2;
+		const details = languageService.getCompletionEntryDetails('/a.foo', position, 'add', undefined, undefined, undefined, undefined)!;
+
+		expect(ts.displayPartsToString(details.displayParts)).toBe('function add(a: number, b: number): number');
+		expect(languageService.getCompletionEntrySymbol('/a.foo', position, 'add', undefined)?.name).toBe('add');
+	});
+
+	it(`map code actions of completion entry details`, () => {
+
+		const files = new Map([
+			['/lib.ts', `export function add(a: number, b: number) { return a + b; }`],
+			['/b.foo', `ad`],
+		]);
+		const languageService = createLanguageService(createTestHost(files), [createFooLanguageModule((_, text) => ({
+			text,
+			capabilities: {},
+			mappings: [mapSourceText(text, '', { completion: true })],
+		}))]);
+		const preferences: ts.UserPreferences = { includeCompletionsForModuleExports: true };
+		const entry = languageService.getCompletionsAtPosition('/b.foo', 2, preferences)!.entries.find(entry => entry.name === 'add')!;
+		const details = languageService.getCompletionEntryDetails('/b.foo', 2, 'add', { newLineCharacter: '\n' }, entry.source, preferences, entry.data)!;
+
+		expect(details.codeActions?.map(action => action.changes)).toEqual([[{
+			fileName: '/b.foo',
+			textChanges: [{ span: { start: 0, length: 0 }, newText: `import { add } from "./lib";\n\n` }],
+		}]]);
+	});
+
+	it(`getQuickInfoAtPosition()`, () => {
+
+		const position = text.indexOf('foo');
+		const result = languageService.getQuickInfoAtPosition('/a.foo', position)!;
+
+		expect(result.textSpan).toEqual({ start: position, length: 3 });
+		expect(ts.displayPartsToString(result.displayParts)).toBe('let foo: number');
+		expect(languageService.getQuickInfoAtPosition('/a.foo', text.lastIndexOf('foo') + 1)).toBeUndefined();
+	});
+
+	it(`getSignatureHelpItems()`, () => {
+
+		const position = text.indexOf('2)');
+		const result = languageService.getSignatureHelpItems('/a.foo', position, undefined)!;
+
+		expect(result.applicableSpan).toEqual({ start: text.indexOf('1, 2'), length: 4 });
+		expect(result.argumentIndex).toBe(1);
+	});
+
+	it(`getEncodedSemanticClassifications()`, () => {
+
+		const result = languageService.getEncodedSemanticClassifications('/a.foo', { start: 0, length: text.length }, ts.SemanticClassificationFormat.TwentyTwenty);
+		const names: string[] = [];
+		for (let i = 0; i < result.spans.length; i += 3) {
+			names.push(text.substring(result.spans[i], result.spans[i] + result.spans[i + 1]));
+		}
+
+		expect(names).toEqual(['add', 'a', 'b', 'a', 'b', 'foo', 'add', 'foo']);
+	});
+});
@@ -0,0 +1,85 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, createTestHost } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService, formatDiagnostics } from '../out';
+
+describe(`Test formatDiagnostics()`, () => {
+
+	const prefix = `// generated\n`;
+	const files = new Map<string, string>([
+		['/src/App.foo', `<script>\nimport { Props } from './types';\nexport const props: Props = { msg: 1 };\n</script>`],
+		['/src/types.ts', `export interface Props {\n\tmsg: string;\n}`],
+	]);
+	const languageModule = createFooLanguageModule((_, text) => {
+		const start = text.indexOf('\n') + 1;
+		const end = text.lastIndexOf('\n');
+		return {
+			text: prefix + text.substring(start, end),
+			capabilities: { diagnostic: true },
+			mappings: [{
+				sourceRange: [start, end],
+				generatedRange: [prefix.length, prefix.length + end - start],
+				data: { diagnostic: true },
+			}],
+		};
+	});
+	const host = createTestHost(files);
+	const program = createLanguageService(host, [languageModule]).getProgram()!;
+	const diagnostics = program.getSemanticDiagnostics().filter(diagnostic => diagnostic.code === 2322) as ts.Diagnostic[];
+
+	it(`pretty`, () => {
+
+		const output = formatDiagnostics(ts, diagnostics, { currentDirectory: '/' }).replace(/\u001b\[\d+m/g, '');
+
+		expect(output).toBe([
+			`src/App.foo:3:31 - error TS2322: Type 'number' is not assignable to type 'string'.`,
+			``,
+			`3 export const props: Props = { msg: 1 };`,
+			`                                ~~~`,
+			``,
+			`  src/types.ts:2:2`,
+			`    2  msg: string;`,
+			`       ~~~`,
+			`    The expected type comes from property 'msg' which is declared here on type 'Props'`,
+			``,
+		].join('\n'));
+	});
+
+	it(`plain`, () => {
+		expect(formatDiagnostics(ts, diagnostics, { currentDirectory: '/src', format: 'plain' })).toBe(
+			`App.foo(3,31): error TS2322: Type 'number' is not assignable to type 'string'.\n`
+		);
+	});
+
+	it(`json`, () => {
+		expect(JSON.parse(formatDiagnostics(ts, diagnostics, { currentDirectory: '/', format: 'json' }))).toEqual([{
+			fileName: 'src/App.foo',
+			start: { line: 3, column: 31 },
+			end: { line: 3, column: 34 },
+			message: `Type 'number' is not assignable to type 'string'.`,
+			category: 'error',
+			code: 2322,
+			relatedInformation: [{
+				fileName: 'src/types.ts',
+				start: { line: 2, column: 2 },
+				end: { line: 2, column: 5 },
+				message: `The expected type comes from property 'msg' which is declared here on type 'Props'`,
+			}],
+		}]);
+	});
+
+	it(`sarif`, () => {
+
+		const log = JSON.parse(formatDiagnostics(ts, diagnostics, { currentDirectory: '/', format: 'sarif', toolName: 'foo-tsc' }));
+
+		expect(log.version).toBe('2.1.0');
+		expect(log.runs[0].tool.driver).toEqual({ name: 'foo-tsc', rules: [{ id: 'TS2322' }] });
+		expect(log.runs[0].results[0].locations).toEqual([{
+			physicalLocation: {
+				artifactLocation: { uri: 'src/App.foo' },
+				region: { startLine: 3, startColumn: 31, endLine: 3, endColumn: 34 },
+			},
+		}]);
+		expect(log.runs[0].results[0].relatedLocations[0].physicalLocation.artifactLocation.uri).toBe('src/types.ts');
+	});
+});
@@ -0,0 +1,166 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createTsServerPluginFactory } from '../out';
+
+describe(`Test createTsServerPluginFactory()`, () => {
+
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text,
+		capabilities: { diagnostic: true, codeAction: true },
+		mappings: [mapSourceText(text, '', { hover: true, references: true, definition: true, rename: true, completion: true, diagnostic: true, semanticTokens: true })],
+	}));
+	const pluginModule = createTsServerPluginFactory(() => [languageModule], { extensions: ['.foo'] })({ typescript: ts });
+
+	function createPluginCreateInfo(projectName: string, files = new Map([
+		['/tsconfig.json', `{ "compilerOptions": { "noLib": true } }`],
+		['/src/App.foo', `export const msg = 'hello';\nconst n: number = msg;`],
+		['/src/main.ts', `import { msg } from './App.foo';\nmsg;`],
+	])) {
+		const project = {
+			getProjectName: () => projectName,
+			getScriptKind: () => ts.ScriptKind.TS,
+			getNewLine: () => '\n',
+			useCaseSensitiveFileNames: () => true,
+			readFile: (fileName: string) => files.get(fileName),
+			fileExists: (fileName: string) => files.has(fileName),
+			directoryExists: (dirName: string) => [...files.keys()].some(fileName => fileName.startsWith(dirName + '/')),
+			getDirectories: () => [],
+			readDirectory: (dirName: string, extensions: string[]) => [...files.keys()].filter(fileName => fileName.startsWith(dirName) && extensions.some(ext => fileName.endsWith(ext))),
+			getCompilationSettings: () => ({ noLib: true }),
+			getCurrentDirectory: () => '/',
+			getDefaultLibFileName: () => '/lib.d.ts',
+			getProjectVersion: () => '0',
+			getProjectReferences: () => undefined,
+			getScriptFileNames: () => ['/src/main.ts', '/src/App.foo'],
+			getScriptVersion: () => '0',
+			getScriptSnapshot: (fileName: string) => {
+				const text = files.get(fileName);
+				if (text !== undefined) {
+					return ts.ScriptSnapshot.fromString(text);
+				}
+			},
+		} as unknown as ts.server.Project;
+		const languageService = {
+			getNavigationTree: () => 'original',
+		} as unknown as ts.LanguageService;
+		return { project, languageService } as ts.server.PluginCreateInfo;
+	}
+
+	it(`getExternalFiles()`, () => {
+		expect(pluginModule.getExternalFiles!(createPluginCreateInfo('/tsconfig.json').project)).toEqual(['/src/App.foo']);
+		expect(pluginModule.getExternalFiles!(createPluginCreateInfo('/dev/null/inferredProject1*').project)).toEqual([]);
+	});
+
+	it(`cache external files until the project is reloaded`, () => {
+
+		const files = new Map([
+			['/tsconfig.json', `{ "compilerOptions": { "noLib": true } }`],
+			['/src/App.foo', ``],
+		]);
+		const { project } = createPluginCreateInfo('/tsconfig.json', files);
+		// ConfigFileProgramReloadLevel
+		const reload = (level: 0 | 1 | 2) => (project as any).pendingReload = level;
+
+		expect(pluginModule.getExternalFiles!(project)).toEqual(['/src/App.foo']);
+
+		files.set('/src/Other.foo', ``);
+		expect(pluginModule.getExternalFiles!(project)).toEqual(['/src/App.foo']);
+
+		// wildcard directory watcher
+		reload(1);
+		reload(0);
+		expect(pluginModule.getExternalFiles!(project)).toEqual(['/src/App.foo', '/src/Other.foo']);
+
+		// config file watcher
+		files.set('/tsconfig.json', `{ "files": ["src/Other.foo"] }`);
+		reload(2);
+		expect(pluginModule.getExternalFiles!(project)).toEqual(['/src/Other.foo']);
+	});
+
+	it(`decorate configured projects`, () => {
+
+		const info = createPluginCreateInfo('/tsconfig.json');
+		const languageService = pluginModule.create(info);
+
+		expect(info.project.getScriptKind('/src/App.foo')).toBe(ts.ScriptKind.Deferred);
+		expect(info.project.getScriptKind('/src/main.ts')).toBe(ts.ScriptKind.TS);
+		expect(languageService.getDefinitionAtPosition('/src/main.ts', `import { msg } from './App.foo';\n`.length)?.map(definition => [definition.fileName, definition.textSpan])).toEqual([
+			['/src/App.foo', { start: 13, length: 3 }],
+		]);
+		expect(languageService.getNavigationTree('/src/main.ts')).toBe('original');
+	});
+
+	it(`map source files in proxied methods`, async () => {
+
+		const languageService = pluginModule.create(createPluginCreateInfo('/tsconfig.json'));
+		const fileName = '/src/App.foo';
+		const text = `export const msg = 'hello';\nconst n: number = msg;`;
+		const position = text.lastIndexOf('msg');
+		const span = { start: position, length: 3 };
+		const literal = { pos: text.indexOf(`'hello'`), end: text.indexOf(`'hello'`) + 7 };
+		const toFileNames = (spans: readonly { fileName: string; }[] | undefined) => spans?.map(span => span.fileName).sort();
+
+		expect(languageService.getSyntacticDiagnostics(fileName)).toEqual([]);
+		expect(languageService.getSemanticDiagnostics(fileName).map(diagnostic => [diagnostic.file?.fileName, diagnostic.code])).toEqual([[fileName, 2322]]);
+		expect(languageService.getSuggestionDiagnostics(fileName).map(diagnostic => [diagnostic.file.fileName, diagnostic.code])).toEqual([[fileName, 6133]]);
+		expect(languageService.getEncodedSemanticClassifications(fileName, { start: 0, length: text.length }, ts.SemanticClassificationFormat.TwentyTwenty).spans.length).toBeGreaterThan(0);
+
+		expect(languageService.getCompletionsAtPosition(fileName, position, {})?.entries.map(entry => entry.name)).toContain('msg');
+		expect(languageService.getCompletionEntryDetails(fileName, position, 'msg', {}, undefined, {}, undefined)?.name).toBe('msg');
+		expect(languageService.getCompletionEntrySymbol(fileName, position, 'msg', undefined)?.name).toBe('msg');
+		expect(languageService.getQuickInfoAtPosition(fileName, position)?.textSpan).toEqual(span);
+		expect(languageService.getSignatureHelpItems(fileName, position, undefined)).toBeUndefined();
+
+		expect(languageService.getRenameInfo(fileName, position, {})).toMatchObject({ canRename: true, triggerSpan: span });
+		expect(toFileNames(languageService.findRenameLocations(fileName, position, false, false))).toEqual([fileName, fileName, '/src/main.ts', '/src/main.ts']);
+		expect(toFileNames(languageService.getDefinitionAtPosition(fileName, position))).toEqual([fileName]);
+		expect(languageService.getDefinitionAndBoundSpan(fileName, position)?.textSpan).toEqual(span);
+		expect(languageService.getTypeDefinitionAtPosition(fileName, position)).toEqual([]);
+		expect(toFileNames(languageService.getImplementationAtPosition(fileName, position))).toEqual([fileName]);
+		expect(toFileNames(languageService.getReferencesAtPosition(fileName, position))).toEqual([fileName, fileName, '/src/main.ts', '/src/main.ts']);
+		expect(toFileNames(languageService.findReferences(fileName, position)?.map(symbol => symbol.definition))).toEqual([fileName, '/src/main.ts']);
+		expect(toFileNames(languageService.getDocumentHighlights(fileName, position, [fileName]))).toEqual([fileName]);
+
+		expect(languageService.prepareCallHierarchy(fileName, position)).toBeUndefined();
+		expect(languageService.provideCallHierarchyIncomingCalls(fileName, position)).toEqual([]);
+		expect(languageService.provideCallHierarchyOutgoingCalls(fileName, position)).toEqual([]);
+		expect(toFileNames(languageService.getEditsForFileRename(fileName, '/src/Main.foo', {}, {}))).toEqual(['/src/main.ts']);
+
+		expect(languageService.getCodeFixesAtPosition(fileName, text.indexOf('n:'), text.indexOf('n:') + 1, [6133], {}, {}).map(fix => toFileNames(fix.changes))).toContainEqual([fileName]);
+		expect(languageService.getCombinedCodeFix({ type: 'file', fileName }, 'unusedIdentifier_delete', {}, {}).changes.map(changes => changes.fileName)).toEqual([fileName]);
+		expect(await languageService.applyCodeActionCommand([], {})).toEqual([]);
+		expect(languageService.getApplicableRefactors(fileName, literal, {}).map(refactor => refactor.name)).toContain('Extract Symbol');
+		expect(toFileNames(languageService.getEditsForRefactor(fileName, {}, literal, 'Extract Symbol', 'constant_scope_0', {})?.edits)).toEqual([fileName]);
+		expect(languageService.organizeImports({ type: 'file', fileName }, {}, {})).toEqual([]);
+	});
+
+	it(`fall through to the original language service without source files`, () => {
+
+		const info = createPluginCreateInfo('/dev/null/inferredProject1*');
+		info.languageService.getQuickInfoAtPosition = () => 'original' as any;
+
+		expect(pluginModule.create(info).getQuickInfoAtPosition('/src/main.ts', 0)).toBe('original');
+	});
+
+	it(`decorate projects that source files are added to later`, () => {
+
+		const files = new Map([
+			['/tsconfig.json', `{ "compilerOptions": { "noLib": true } }`],
+			['/src/main.ts', `import { msg } from './App.foo';\nmsg;`],
+		]);
+		const info = createPluginCreateInfo('/tsconfig.json', files);
+		info.languageService.getDefinitionAtPosition = () => 'original' as any;
+		const languageService = pluginModule.create(info);
+		const position = `import { msg } from './App.foo';\n`.length;
+
+		expect(languageService.getDefinitionAtPosition('/src/main.ts', position)).toBe('original');
+
+		files.set('/src/App.foo', `export const msg = 'hello';`);
+		// wildcard directory watcher
+		(info.project as any).pendingReload = 1;
+		(info.project as any).pendingReload = 0;
+
+		expect(languageService.getDefinitionAtPosition('/src/main.ts', position)?.map(definition => definition.fileName)).toEqual(['/src/App.foo']);
+	});
+});
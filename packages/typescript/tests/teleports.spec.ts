@@ -0,0 +1,90 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createLanguageService } from '../out';
+
+describe(`Test teleports`, () => {
+
+	const files = new Map<string, string>([
+		['/a.foo', `export const msg = 1;\nexport const message = msg;`],
+		['/main.ts', `import { message } from './a.foo';\nmessage;`],
+	]);
+	const offsetOf = (fileName: string, text: string, nth = 0) => {
+		let offset = -1;
+		for (let i = 0; i <= nth; i++) {
+			offset = files.get(fileName)!.indexOf(text, offset + 1);
+		}
+		return offset;
+	};
+	const msg = offsetOf('/a.foo', 'msg');
+	const message = offsetOf('/a.foo', 'message');
+	const languageModule = createFooLanguageModule((_, text) => {
+		const capabilities = { references: true, definition: true, rename: true };
+		return {
+			text,
+			capabilities: {},
+			mappings: [mapSourceText(text, '', capabilities)],
+			// `msg` <-> `message`, ranges of different lengths
+			teleportMappings: [{
+				sourceRange: [msg, msg + 'msg'.length],
+				generatedRange: [message, message + 'message'.length],
+				data: {
+					toSourceCapabilities: capabilities,
+					toGenedCapabilities: capabilities,
+				},
+			}],
+		};
+	});
+	const host = createTestHost(files);
+	const languageService = createLanguageService(host, [languageModule]);
+	const toLocation = (location: { fileName: string, textSpan: ts.TextSpan; }) => [location.fileName, location.textSpan.start, location.textSpan.length];
+	const sort = (locations: any[][]) => locations.sort((a, b) => a.join().localeCompare(b.join()));
+
+	it(`getReferencesAtPosition()`, () => {
+
+		const references = languageService.getReferencesAtPosition('/main.ts', offsetOf('/main.ts', 'message', 1))!;
+
+		expect(sort(references.map(toLocation))).toEqual(sort([
+			['/a.foo', msg, 3],
+			['/a.foo', offsetOf('/a.foo', 'msg', 1), 3],
+			['/a.foo', message, 7],
+			['/main.ts', offsetOf('/main.ts', 'message'), 7],
+			['/main.ts', offsetOf('/main.ts', 'message', 1), 7],
+		]));
+	});
+
+	it(`findReferences()`, () => {
+
+		const symbols = languageService.findReferences('/a.foo', offsetOf('/a.foo', 'msg', 1))!;
+
+		expect(symbols.map(symbol => toLocation(symbol.definition))).toEqual([
+			['/a.foo', msg, 3],
+			['/a.foo', message, 7],
+			// import alias
+			['/main.ts', offsetOf('/main.ts', 'message'), 7],
+		]);
+	});
+
+	it(`getDefinitionAndBoundSpan()`, () => {
+
+		const result = languageService.getDefinitionAndBoundSpan('/main.ts', offsetOf('/main.ts', 'message', 1))!;
+
+		expect(result.textSpan).toEqual({ start: offsetOf('/main.ts', 'message', 1), length: 7 });
+		expect(result.definitions!.map(toLocation)).toEqual([
+			['/a.foo', message, 7],
+			['/a.foo', msg, 3],
+		]);
+	});
+
+	it(`getDocumentHighlights()`, () => {
+
+		const highlights = languageService.getDocumentHighlights('/a.foo', msg, ['/a.foo'])!;
+
+		expect(highlights.map(highlight => highlight.fileName)).toEqual(['/a.foo']);
+		expect(sort(highlights[0].highlightSpans.map(span => [span.textSpan.start, span.textSpan.length]))).toEqual(sort([
+			[msg, 3],
+			[offsetOf('/a.foo', 'msg', 1), 3],
+			[message, 7],
+		]));
+	});
+});
@@ -0,0 +1,177 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { describe, expect, it } from 'vitest';
+import { createFooLanguageModule, mapSourceText } from '../../language-core/tests/utils/fooLanguage';
+import { createBuilderProgramProxy, createTscProgramProxy } from '../out';
+
+describe(`Test createTscProgramProxy()`, () => {
+
+	const globals = `interface Array<T> { } interface Boolean { } interface CallableFunction { } interface Function { } interface IArguments { } interface NewableFunction { } interface Number { } interface Object { } interface RegExp { } interface String { }`;
+
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text,
+		capabilities: { diagnostic: true },
+		mappings: [mapSourceText(text, '', { diagnostic: true })],
+	}));
+
+	function createCompilerHost(files: Map<string, string>): ts.CompilerHost {
+		return {
+			getSourceFile: (fileName, languageVersion) => {
+				const text = files.get(fileName);
+				if (text !== undefined) {
+					return ts.createSourceFile(fileName, text, languageVersion);
+				}
+			},
+			writeFile: (fileName, text) => files.set(fileName, text),
+			fileExists: fileName => files.has(fileName),
+			readFile: fileName => files.get(fileName),
+			getDefaultLibFileName: () => '/lib.d.ts',
+			getCurrentDirectory: () => '/',
+			getCanonicalFileName: fileName => fileName,
+			useCaseSensitiveFileNames: () => true,
+			getNewLine: () => '\n',
+		};
+	}
+
+	it(`report diagnostics of source files`, () => {
+
+		const files = new Map([['/a.foo', `const a: string = 1;`]]);
+		const createProgram = createTscProgramProxy([languageModule], ts);
+		const program = createProgram({
+			rootNames: ['/a.foo'],
+			options: { noLib: true, noEmit: true },
+			host: createCompilerHost(files),
+		}) as unknown as ts.Program;
+		const diagnostics = program.getSemanticDiagnostics();
+
+		expect(diagnostics.map(diagnostic => [diagnostic.file?.fileName, diagnostic.start, diagnostic.length])).toEqual([
+			['/a.foo', 6, 1],
+		]);
+
+		// --pretty
+		const output = ts.formatDiagnosticsWithColorAndContext(diagnostics, {
+			getCanonicalFileName: fileName => fileName,
+			getCurrentDirectory: () => '/',
+			getNewLine: () => '\n',
+		});
+		expect(output).toContain(`const a: string = 1;`);
+	});
+
+	it(`reuse old program in watch mode`, () => {
+
+		const files = new Map([['/a.foo', `const a: string = '';`]]);
+		const host = createCompilerHost(files);
+		const createProgram = createTscProgramProxy([languageModule], ts);
+		const program = createProgram({
+			rootNames: ['/a.foo'],
+			options: { noLib: true, noEmit: true },
+			host,
+		}) as unknown as ts.Program;
+		const getBindAndCheckDiagnostics = (sourceFile: ts.SourceFile): readonly ts.Diagnostic[] => (program as any).getBindAndCheckDiagnostics(sourceFile);
+
+		expect(program.getSourceFiles().map(getBindAndCheckDiagnostics).flat()).toEqual([]);
+
+		files.set('/b.foo', `const b: number = '';`);
+		const newProgram = createProgram({
+			rootNames: ['/a.foo', '/b.foo'],
+			options: { noLib: true, noEmit: true },
+			host,
+			oldProgram: program as any,
+		});
+
+		expect(newProgram).not.toBe(program);
+		expect((newProgram as any).__volar).toBe((program as any).__volar);
+		expect(newProgram.getSourceFiles().map(getBindAndCheckDiagnostics).flat().map(diagnostic => [diagnostic.file?.fileName, diagnostic.start])).toEqual([
+			['/b.foo', 6],
+		]);
+	});
+
+	it(`report diagnostics of source files in builder watch mode`, () => {
+
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'volar-tsc-')).replace(/\\/g, '/');
+		const fileName = dir + '/a.foo';
+		fs.writeFileSync(dir + '/globals.d.ts', globals);
+		fs.writeFileSync(fileName, `export const a: string = '';`);
+
+		const fileWatchers = new Map<string, ts.FileWatcherCallback>();
+		const timeouts: (() => void)[] = [];
+		const system: ts.System = {
+			...ts.sys,
+			write: () => { },
+			watchFile: (fileName, callback) => {
+				fileWatchers.set(fileName, callback);
+				return { close: () => fileWatchers.delete(fileName) };
+			},
+			watchDirectory: () => ({ close: () => { } }),
+			setTimeout: callback => timeouts.push(callback),
+			clearTimeout: () => { },
+		};
+		const diagnostics: (string | number | undefined)[][] = [];
+		const host = ts.createWatchCompilerHost(
+			[dir + '/globals.d.ts', fileName],
+			{ noLib: true, noEmit: true, types: [] },
+			system,
+			createBuilderProgramProxy([languageModule], ts),
+			diagnostic => diagnostics.push([diagnostic.file?.fileName, diagnostic.start]),
+			() => { },
+		);
+		const watch = ts.createWatchProgram(host);
+
+		try {
+			expect(diagnostics).toEqual([]);
+
+			fs.writeFileSync(fileName, `export const a: string = 1;`);
+			fs.utimesSync(fileName, new Date(), new Date(Date.now() + 1000));
+			fileWatchers.get(fileName)!(fileName, ts.FileWatcherEventKind.Changed);
+			while (timeouts.length) {
+				timeouts.shift()!();
+			}
+
+			expect(diagnostics).toEqual([[fileName, 13]]);
+		}
+		finally {
+			watch.close();
+			fs.rmSync(dir, { recursive: true });
+		}
+	});
+
+	it(`runTsc() --format json`, () => {
+
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'volar-tsc-'));
+		const source = `export const a: string = 1;`;
+		fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { noLib: true, noEmit: true, types: [] }, files: ['globals.d.ts', 'a.foo'] }));
+		fs.writeFileSync(path.join(dir, 'globals.d.ts'), globals);
+		fs.writeFileSync(path.join(dir, 'a.foo'), source);
+		// language module of .foo files without the vitest transform
+		fs.writeFileSync(path.join(dir, 'tsc.js'), `
+			require(${JSON.stringify(path.resolve(__dirname, '../out'))}).runTsc(${JSON.stringify(require.resolve('typescript/lib/tsc'))}, ['.foo'], [{
+				createSourceFile(fileName, snapshot) {
+					if (!fileName.endsWith('.foo')) return;
+					const text = snapshot.getText(0, snapshot.getLength());
+					const mappings = [{ sourceRange: [0, text.length], generatedRange: [0, text.length], data: { diagnostic: true } }];
+					return {
+						fileName, text, kind: 0, capabilities: {}, mappings: [],
+						embeddeds: [{ fileName: fileName + '.ts', text, kind: 1, capabilities: { diagnostic: true }, mappings, embeddeds: [] }],
+					};
+				},
+				updateSourceFile() { },
+			}]);
+		`);
+
+		try {
+			const result = childProcess.spawnSync(process.execPath, [path.join(dir, 'tsc.js'), '--format', 'json', '-p', dir], { cwd: dir, encoding: 'utf8', timeout: 60000 });
+			const diagnostics = JSON.parse(result.stdout);
+
+			expect(result.status).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsGenerated);
+			expect(diagnostics.map((diagnostic: any) => [diagnostic.fileName, diagnostic.code, diagnostic.start])).toEqual([
+				['a.foo', 2322, { line: 1, column: source.indexOf('a') + 1 }],
+			]);
+		}
+		finally {
+			fs.rmSync(dir, { recursive: true });
+		}
+	});
+});
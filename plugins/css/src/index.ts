@@ -17,6 +17,12 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'css',
+
+		selector: {
+			languageIds: ['css', 'scss', 'less', 'postcss'],
+		},
+
 		setup(_context) {
 			context = _context;
 			cssLs = css.getCSSLanguageService({ fileSystemProvider: _context.env.fileSystemProvider });
@@ -242,7 +248,7 @@ export default function (): LanguageServicePlugin {
 		}
 	}
 
-	function getStylesheet(document: TextDocument) {
+	function getStylesheet(document: TextDocument, cssLs: css.LanguageService) {
 
 		const cache = stylesheets.get(document);
 		if (cache) {
@@ -252,10 +258,6 @@ export default function (): LanguageServicePlugin {
 			}
 		}
 
-		const cssLs = getCssLs(document.languageId);
-		if (!cssLs)
-			return;
-
 		const stylesheet = cssLs.parseStylesheet(document);
 		stylesheets.set(document, [document.version, stylesheet]);
 
@@ -264,14 +266,12 @@ export default function (): LanguageServicePlugin {
 
 	async function worker<T>(document: TextDocument, callback: (stylesheet: css.Stylesheet, cssLs: css.LanguageService) => T) {
 
-		const stylesheet = getStylesheet(document);
-		if (!stylesheet)
-			return;
-
 		const cssLs = getCssLs(document.languageId);
 		if (!cssLs)
 			return;
 
+		const stylesheet = getStylesheet(document, cssLs);
+
 		await initCustomData();
 
 		return callback(stylesheet, cssLs);
@@ -7,6 +7,8 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'emmet',
+
 		setup(_context) {
 			context = _context;
 		},
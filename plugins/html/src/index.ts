@@ -22,6 +22,12 @@ export default function (options: {
 
 	return {
 
+		id: 'html',
+
+		selector: {
+			languageIds: [options.validLang ?? 'html'],
+		},
+
 		getHtmlLs: () => htmlLs,
 
 		updateCustomData,
@@ -239,8 +245,6 @@ export default function (options: {
 	async function worker<T>(document: TextDocument, callback: (htmlDocument: html.HTMLDocument) => T) {
 
 		const htmlDocument = getHtmlDocument(document);
-		if (!htmlDocument)
-			return;
 
 		await initCustomData();
 
@@ -249,9 +253,6 @@ export default function (options: {
 
 	function getHtmlDocument(document: TextDocument) {
 
-		if (document.languageId !== (options.validLang ?? 'html'))
-			return;
-
 		const cache = htmlDocuments.get(document);
 		if (cache) {
 			const [cacheVersion, cacheDoc] = cache;
@@ -12,6 +12,12 @@ export default function (settings?: json.LanguageSettings): LanguageServicePlugi
 
 	return {
 
+		id: 'json',
+
+		selector: {
+			languageIds: ['json', 'jsonc'],
+		},
+
 		setup(_context) {
 			context = _context;
 			jsonLs = json.getLanguageService({ schemaRequestService: _context.env.schemaRequestService });
@@ -138,17 +144,12 @@ export default function (settings?: json.LanguageSettings): LanguageServicePlugi
 	function worker<T>(document: TextDocument, callback: (jsonDocument: json.JSONDocument) => T) {
 
 		const jsonDocument = getJsonDocument(document);
-		if (!jsonDocument)
-			return;
 
 		return callback(jsonDocument);
 	}
 
 	function getJsonDocument(textDocument: TextDocument) {
 
-		if (textDocument.languageId !== 'json' && textDocument.languageId !== 'jsonc')
-			return;
-
 		const cache = jsonDocuments.get(textDocument);
 		if (cache) {
 			const [cacheVersion, cacheDoc] = cache;
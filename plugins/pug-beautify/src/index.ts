@@ -5,6 +5,12 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'pug-beautify',
+
+		selector: {
+			languageIds: ['jade'],
+		},
+
 		format(document, range, options) {
 
 			if (document.languageId !== 'jade')
@@ -1,5 +1,7 @@
 import type { LanguageServicePlugin } from '@volar/language-service';
 
 export default function (): LanguageServicePlugin {
-	return {};
+	return {
+		id: 'pug',
+	};
 }
@@ -19,9 +19,18 @@ export default function (): LanguageServicePlugin & ReturnType<typeof useHtmlPlu
 	return {
 
 		...htmlPlugin,
+		id: 'pug',
+		selector: {
+			languageIds: ['jade'],
+		},
 		getPugLs: () => pugLs,
 		getPugDocument,
 
+		// html features that don't work for pug documents
+		rename: undefined,
+		format: undefined,
+		findLinkedEditingRanges: undefined,
+
 		setup(_context) {
 			htmlPlugin.setup?.(_context);
 			pugLs = pug.getLanguageService(htmlPlugin.getHtmlLs());
@@ -128,17 +137,12 @@ export default function (): LanguageServicePlugin & ReturnType<typeof useHtmlPlu
 	function worker<T>(document: TextDocument, callback: (pugDocument: pug.PugDocument) => T) {
 
 		const pugDocument = getPugDocument(document);
-		if (!pugDocument)
-			return;
 
 		return callback(pugDocument);
 	}
 
 	function getPugDocument(document: TextDocument) {
 
-		if (document.languageId !== 'jade')
-			return;
-
 		const cache = pugDocuments.get(document);
 		if (cache) {
 			const [cacheVersion, cacheDoc] = cache;
@@ -22,6 +22,7 @@ import * as formatting from './services/formatting';
 import * as semanticTokens from './services/semanticTokens';
 import * as foldingRanges from './services/foldingRanges';
 import * as callHierarchy from './services/callHierarchy';
+import * as typeHierarchy from './services/typeHierarchy';
 import * as implementation from './services/implementation';
 import * as inlayHints from './services/inlayHints';
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -76,6 +77,7 @@ export function createLanguageService(
 		getFoldingRanges: foldingRanges.register(languageService, getTextDocument, ts),
 		getDocumentSemanticTokens: semanticTokens.register(host, languageService, getTextDocument, ts),
 		callHierarchy: callHierarchy.register(languageService, getTextDocument),
+		typeHierarchy: typeHierarchy.register(languageService, getTextDocument, ts),
 	};
 
 	function getTextDocument(uri: string) {
@@ -36,6 +36,12 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'typescript',
+
+		selector: {
+			languageIds: ['javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'json', 'jsonc'],
+		},
+
 		setup(_context) {
 			context = _context;
 			tsLs2 = ts2.createLanguageService(
@@ -127,9 +133,7 @@ export default function (): LanguageServicePlugin {
 			},
 
 			on(document, position, newName) {
-				if (isTsDocument(document) || isJsonDocument(document)) {
-					return tsLs2.doRename(document.uri, position, newName);
-				}
+				return tsLs2.doRename(document.uri, position, newName);
 			},
 		},
 
@@ -172,6 +176,23 @@ export default function (): LanguageServicePlugin {
 			},
 		},
 
+		typeHierarchy: {
+
+			prepare(document, position) {
+				if (isTsDocument(document)) {
+					return tsLs2.typeHierarchy.doPrepare(document.uri, position);
+				}
+			},
+
+			supertypes(item) {
+				return tsLs2.typeHierarchy.getSupertypes(item);
+			},
+
+			subtypes(item) {
+				return tsLs2.typeHierarchy.getSubtypes(item);
+			},
+		},
+
 		definition: {
 
 			on(document, position) {
@@ -223,15 +244,11 @@ export default function (): LanguageServicePlugin {
 		},
 
 		findReferences(document, position) {
-			if (isTsDocument(document) || isJsonDocument(document)) {
-				return tsLs2.findReferences(document.uri, position);
-			}
+			return tsLs2.findReferences(document.uri, position);
 		},
 
 		findFileReferences(document) {
-			if (isTsDocument(document) || isJsonDocument(document)) {
-				return tsLs2.findFileReferences(document.uri);
-			}
+			return tsLs2.findFileReferences(document.uri);
 		},
 
 		findDocumentHighlights(document, position) {
@@ -14,5 +14,10 @@ declare module 'typescript/lib/tsserverlibrary' {
 	interface JSDocLinkDisplayPart {
 		target: Proto.server.protocol.FileSpan;
 	}
+
+	/**
+	 * @internal
+	 */
+	function getTouchingPropertyName(sourceFile: SourceFile, position: number): Node;
 }
 
@@ -0,0 +1,159 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as shared from '@volar/shared';
+import * as vscode from 'vscode-languageserver-protocol';
+import type * as ts from 'typescript/lib/tsserverlibrary';
+
+type TypeDeclaration = ts.ClassLikeDeclaration | ts.InterfaceDeclaration;
+
+export function register(
+	languageService: ts.LanguageService,
+	getTextDocument: (uri: string) => TextDocument | undefined,
+	ts: typeof import('typescript/lib/tsserverlibrary'),
+) {
+	function doPrepare(uri: string, position: vscode.Position) {
+
+		const document = getTextDocument(uri);
+		if (!document) return [];
+
+		const declarations = getTypeDeclarationsAtPosition(shared.getPathOfUri(document.uri), document.offsetAt(position));
+
+		return declarations.map(toTypeHierarchyItem).filter(shared.notEmpty);
+	}
+	function getSupertypes(item: vscode.TypeHierarchyItem) {
+
+		const declaration = getItemDeclaration(item);
+		if (!declaration) return [];
+
+		return getDirectSupertypes(declaration).map(toTypeHierarchyItem).filter(shared.notEmpty);
+	}
+	function getSubtypes(item: vscode.TypeHierarchyItem) {
+
+		const document = getTextDocument(item.uri);
+		const declaration = getItemDeclaration(item);
+		if (!document || !declaration) return [];
+
+		const fileName = shared.getPathOfUri(item.uri);
+		const offset = document.offsetAt(item.selectionRange.start);
+		const candidates = new Set<TypeDeclaration>();
+
+		// classes that extend or implement the type, including the indirect ones
+		let implementations: readonly ts.ImplementationLocation[] | undefined;
+		try { implementations = languageService.getImplementationAtPosition(fileName, offset); } catch { }
+		for (const implementation of implementations ?? []) {
+			const node = getNodeAtPosition(implementation.fileName, implementation.textSpan.start);
+			if (node && isTypeDeclaration(node.parent) && node.parent.name === node) {
+				candidates.add(node.parent);
+			}
+		}
+
+		// implementations don't include the interfaces that extend the type
+		let references: readonly ts.ReferenceEntry[] | undefined;
+		try { references = languageService.getReferencesAtPosition(fileName, offset); } catch { }
+		for (const reference of references ?? []) {
+			const heritageDeclaration = getHeritageDeclaration(getNodeAtPosition(reference.fileName, reference.textSpan.start));
+			if (heritageDeclaration) {
+				candidates.add(heritageDeclaration);
+			}
+		}
+
+		return [...candidates]
+			.filter(candidate => getDirectSupertypes(candidate).includes(declaration))
+			.map(toTypeHierarchyItem)
+			.filter(shared.notEmpty);
+	}
+
+	return {
+		doPrepare,
+		getSupertypes,
+		getSubtypes,
+	};
+
+	function getItemDeclaration(item: vscode.TypeHierarchyItem) {
+		const document = getTextDocument(item.uri);
+		if (!document) return;
+		const offset = document.offsetAt(item.selectionRange.start);
+		return getTypeDeclarationsAtPosition(shared.getPathOfUri(item.uri), offset)
+			.find(declaration => declaration.name?.getStart() === offset);
+	}
+
+	function getTypeDeclarationsAtPosition(fileName: string, offset: number) {
+		const node = getNodeAtPosition(fileName, offset);
+		const checker = languageService.getProgram()?.getTypeChecker();
+		if (!node || !checker) return [];
+		const symbol = getSymbol(checker, node);
+		return symbol?.declarations?.filter(isTypeDeclaration) ?? [];
+	}
+
+	function getDirectSupertypes(declaration: TypeDeclaration) {
+		const checker = languageService.getProgram()?.getTypeChecker();
+		if (!checker) return [];
+		const supertypes: TypeDeclaration[] = [];
+		for (const clause of declaration.heritageClauses ?? []) {
+			for (const type of clause.types) {
+				const symbol = getSymbol(checker, type.expression);
+				for (const superDeclaration of symbol?.declarations ?? []) {
+					if (isTypeDeclaration(superDeclaration)) {
+						supertypes.push(superDeclaration);
+					}
+				}
+			}
+		}
+		return supertypes;
+	}
+
+	/**
+	 * The class or interface declaration if `node` is the name of a type in its `extends` / `implements` clause.
+	 */
+	function getHeritageDeclaration(node: ts.Node | undefined) {
+		while (node && ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+			node = node.parent;
+		}
+		if (
+			node
+			&& ts.isExpressionWithTypeArguments(node.parent)
+			&& ts.isHeritageClause(node.parent.parent)
+			&& isTypeDeclaration(node.parent.parent.parent)
+		) {
+			return node.parent.parent.parent;
+		}
+	}
+
+	function getSymbol(checker: ts.TypeChecker, node: ts.Node) {
+		let symbol = checker.getSymbolAtLocation(node);
+		if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+			symbol = checker.getAliasedSymbol(symbol);
+		}
+		return symbol;
+	}
+
+	function getNodeAtPosition(fileName: string, offset: number): ts.Node | undefined {
+		const sourceFile = languageService.getProgram()?.getSourceFile(fileName);
+		if (sourceFile) {
+			return ts.getTouchingPropertyName(sourceFile, offset);
+		}
+	}
+
+	function isTypeDeclaration(node: ts.Node): node is TypeDeclaration {
+		return ts.isClassLike(node) || ts.isInterfaceDeclaration(node);
+	}
+
+	function toTypeHierarchyItem(declaration: TypeDeclaration): vscode.TypeHierarchyItem | undefined {
+		const sourceFile = declaration.getSourceFile();
+		const uri = shared.getUriByPath(sourceFile.fileName);
+		const document = getTextDocument(uri);
+		if (!document || !declaration.name) return;
+		return {
+			kind: ts.isInterfaceDeclaration(declaration) ? vscode.SymbolKind.Interface : vscode.SymbolKind.Class,
+			name: declaration.name.text,
+			uri,
+			range: {
+				start: document.positionAt(declaration.getStart()),
+				end: document.positionAt(declaration.getEnd()),
+			},
+			selectionRange: {
+				start: document.positionAt(declaration.name.getStart()),
+				end: document.positionAt(declaration.name.getEnd()),
+			},
+		};
+	}
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { URI } from 'vscode-uri';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { createEmbeddedLanguageServiceHost, createLanguageService, createLanguageServiceContext } from '../../../packages/language-service/out';
+import { createFooLanguageModule, createTestHost, mapSourceText } from '../../../packages/language-core/tests/utils/fooLanguage';
+import * as tsPlugin from '../out';
+
+// vitest doesn't unwrap the default export of CommonJS modules outside node_modules
+const createTsPlugin: typeof tsPlugin.default = (tsPlugin.default as any).default;
+
+describe(`Test type hierarchy of the TypeScript plugin`, () => {
+
+	const prefix = '// generated\n';
+	const source = [
+		`interface I { }`,
+		`interface J extends I { }`,
+		`class A implements J { }`,
+		`class B extends A { }`,
+	].join('\n');
+	const languageModule = createFooLanguageModule((_, text) => ({
+		text: prefix + text,
+		capabilities: {},
+		mappings: [mapSourceText(text, prefix, { references: true })],
+	}));
+	const host = createTestHost(new Map([['/a.foo', source]]));
+	const languageService = createLanguageService(createLanguageServiceContext({
+		host,
+		context: createEmbeddedLanguageServiceHost(host, [languageModule]),
+		getPlugins: () => [createTsPlugin()],
+		env: { rootUri: URI.file('/') },
+		documentRegistry: undefined,
+	}));
+	const toLocation = (item: vscode.TypeHierarchyItem) => [item.name, item.uri, item.selectionRange.start.line, item.selectionRange.start.character];
+
+	async function prepare(line: number, character: number) {
+		return (await languageService.typeHierarchy.doPrepare('file:///a.foo', { line, character }))!;
+	}
+
+	it(`class hierarchy`, async () => {
+
+		const items = await prepare(2, 6);
+
+		expect(items.map(toLocation)).toEqual([['A', 'file:///a.foo', 2, 6]]);
+		expect((await languageService.typeHierarchy.getSupertypes(items[0])).map(toLocation)).toEqual([['J', 'file:///a.foo', 1, 10]]);
+
+		const subtypes = await languageService.typeHierarchy.getSubtypes(items[0]);
+
+		expect(subtypes.map(toLocation)).toEqual([['B', 'file:///a.foo', 3, 6]]);
+		expect((await languageService.typeHierarchy.getSupertypes(subtypes[0])).map(toLocation)).toEqual([['A', 'file:///a.foo', 2, 6]]);
+	});
+
+	it(`interface hierarchy`, async () => {
+
+		const items = await prepare(0, 10);
+
+		expect(items.map(toLocation)).toEqual([['I', 'file:///a.foo', 0, 10]]);
+		expect(await languageService.typeHierarchy.getSupertypes(items[0])).toEqual([]);
+
+		// interfaces that extend the interface and classes that implement them
+		const subtypes = await languageService.typeHierarchy.getSubtypes(items[0]);
+
+		expect(subtypes.map(toLocation)).toEqual([['J', 'file:///a.foo', 1, 10]]);
+		expect((await languageService.typeHierarchy.getSubtypes(subtypes[0])).map(toLocation)).toEqual([['A', 'file:///a.foo', 2, 6]]);
+	});
+});
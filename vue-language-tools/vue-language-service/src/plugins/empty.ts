@@ -1,7 +1,9 @@
 import { LanguageServicePlugin } from '@volar/language-service';
 
 export default function (): LanguageServicePlugin {
-	return {};
+	return {
+		id: 'vue-convert-htmlpug',
+	};
 }
 
 export const semanticTokenTypes = [];
@@ -12,6 +12,8 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'vue-autoinsert-dotvalue',
+
 		setup(_context) {
 			context = _context;
 		},
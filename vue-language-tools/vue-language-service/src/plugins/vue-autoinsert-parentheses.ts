@@ -13,6 +13,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-autoinsert-parentheses',
+
 		setup(_context) {
 			context = _context;
 		},
@@ -6,6 +6,8 @@ export default function (): LanguageServicePlugin {
 
 	return {
 
+		id: 'vue-autoinsert-space',
+
 		setup(_context) {
 			context = _context;
 		},
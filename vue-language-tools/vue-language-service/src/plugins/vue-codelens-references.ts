@@ -22,6 +22,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-codelens-references',
+
 		setup(_context) {
 			context = _context;
 		},
@@ -20,6 +20,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-convert-htmlpug',
+
 		setup(_context) {
 			context = _context;
 		},
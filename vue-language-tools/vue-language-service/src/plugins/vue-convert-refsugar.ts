@@ -37,6 +37,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-convert-refsugar',
+
 		setup(_context) {
 			context = _context;
 			ts = context.typescript.module;
@@ -28,6 +28,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-convert-scriptsetup',
+
 		setup(_context) {
 			context = _context;
 		},
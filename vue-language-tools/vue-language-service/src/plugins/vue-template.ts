@@ -49,6 +49,7 @@ export default function useVueTemplateLanguagePlugin<T extends ReturnType<typeof
 	return {
 
 		...options.templateLanguagePlugin,
+		id: 'vue-template-' + options.templateLanguagePlugin.id,
 
 		setup(_context) {
 			options.templateLanguagePlugin.setup?.(_context);
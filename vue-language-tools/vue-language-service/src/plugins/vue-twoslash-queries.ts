@@ -11,6 +11,8 @@ export default function (options: {
 
 	return {
 
+		id: 'vue-twoslash-queries',
+
 		setup(_context) {
 			context = _context;
 		},
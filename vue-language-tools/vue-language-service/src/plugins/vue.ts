@@ -125,13 +125,25 @@ export default function (options: {
 
 	let context: LanguageServicePluginContext;
 
+	// the vue plugin accepts vue files of any language id, but features of the html plugin are only for `vue` documents
 	if (htmlPlugin.complete?.on) {
-		htmlPlugin.complete.on = apiWithEmptyBlocksDocument(htmlPlugin.complete.on);
+		htmlPlugin.complete.on = apiWithEmptyBlocksDocument(apiWithVueLanguageId(htmlPlugin.complete.on));
 	}
+	if (htmlPlugin.rename?.on) {
+		htmlPlugin.rename.on = apiWithVueLanguageId(htmlPlugin.rename.on);
+	}
+	htmlPlugin.doHover = htmlPlugin.doHover && apiWithVueLanguageId(htmlPlugin.doHover);
+	htmlPlugin.findDocumentHighlights = htmlPlugin.findDocumentHighlights && apiWithVueLanguageId(htmlPlugin.findDocumentHighlights);
+	htmlPlugin.findDocumentLinks = htmlPlugin.findDocumentLinks && apiWithVueLanguageId(htmlPlugin.findDocumentLinks);
+	htmlPlugin.findLinkedEditingRanges = htmlPlugin.findLinkedEditingRanges && apiWithVueLanguageId(htmlPlugin.findLinkedEditingRanges);
+	htmlPlugin.doAutoInsert = htmlPlugin.doAutoInsert && apiWithVueLanguageId(htmlPlugin.doAutoInsert);
 
 	return {
 
 		...htmlPlugin,
+		id: 'vue',
+		// vue files of custom extensions may have other language ids
+		selector: undefined,
 
 		setup(_context) {
 			htmlPlugin.setup?.(_context);
@@ -306,6 +318,15 @@ export default function (options: {
 		return fn as T;
 	}
 
+	function apiWithVueLanguageId<T extends (doc: TextDocument, ...args: any[]) => any>(api: T): T {
+		const fn = (doc: TextDocument, ...args: any[]) => {
+			if (doc.languageId === 'vue') {
+				return api(doc, ...args);
+			}
+		};
+		return fn as T;
+	}
+
 	function worker<T>(document: TextDocument, callback: (emptyBlocksDocument: TextDocument, vueDocument: SourceFileDocument, vueSourceFile: vue.VueFile) => T) {
 
 		const vueDocument = options.getVueDocument(document);